@@ -0,0 +1,32 @@
+import { searchAuditLog } from "@/lib/audit-log";
+import { jsonResponse, requireAdmin } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Admin search over the audit log, newest first:
+// ?identity=&workspace=&q=&since=&until=&errors=1&limit= (since/until are ISO 8601 instants).
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  const p = new URL(req.url).searchParams;
+  const workspace = p.get("workspace");
+  const since = p.get("since") ?? undefined;
+  const until = p.get("until") ?? undefined;
+  for (const [name, v] of [["since", since], ["until", until]] as const) {
+    if (v !== undefined && !Number.isFinite(Date.parse(v))) return jsonResponse({ error: `${name} must be an ISO 8601 instant` }, 400);
+  }
+  const limit = Math.min(500, Math.max(1, Math.floor(Number(p.get("limit") ?? 50)) || 50));
+
+  const records = await searchAuditLog({
+    identity: p.get("identity") || undefined,
+    workspace: workspace === "security" || workspace === "observability" ? workspace : undefined,
+    text: p.get("q")?.trim() || undefined,
+    since: since && new Date(since).toISOString(),
+    until: until && new Date(until).toISOString(),
+    errors_only: p.get("errors") === "1",
+    limit,
+  });
+  return jsonResponse({ records });
+}
@@ -0,0 +1,32 @@
+import { jsonResponse } from "@/lib/auth";
+import { cookieHeader, finishLogin, LOGIN_COOKIE, oidcConfig, webSessionCookie } from "@/lib/oidc";
+import { identityForGroups } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// The OIDC provider redirects here with ?code&state; sets the session cookie and goes back to the app.
+export async function GET(req: Request) {
+  let cfg: ReturnType<typeof oidcConfig>;
+  try {
+    cfg = oidcConfig();
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 500);
+  }
+  if (!cfg) return jsonResponse({ error: "SSO is not configured" }, 404);
+
+  let login: Awaited<ReturnType<typeof finishLogin>>;
+  try {
+    login = await finishLogin(req, cfg);
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 401);
+  }
+  if (identityForGroups(login.name, login.groups).workspaces.length === 0) {
+    return jsonResponse({ error: `No role is mapped to the groups of ${login.name}` }, 403);
+  }
+
+  const headers = new Headers({ Location: new URL(login.returnTo, req.url).toString() });
+  headers.append("Set-Cookie", webSessionCookie(req, cfg, login.name, login.groups));
+  headers.append("Set-Cookie", cookieHeader(req, LOGIN_COOKIE, "", 0, "/api/auth"));
+  return new Response(null, { status: 302, headers });
+}
@@ -0,0 +1,19 @@
+import { jsonResponse } from "@/lib/auth";
+import { beginLogin, oidcConfig } from "@/lib/oidc";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Starts SSO: redirects to the OIDC provider. ?return_to=/path brings the user back there.
+export async function GET(req: Request) {
+  try {
+    const cfg = oidcConfig();
+    if (!cfg) return jsonResponse({ error: "SSO is not configured" }, 404);
+    const returnTo = new URL(req.url).searchParams.get("return_to") ?? "/";
+    // Same-site paths only, so the callback cannot be used as an open redirect.
+    const { url, cookie } = await beginLogin(req, cfg, /^\/(?![/\\])/.test(returnTo) ? returnTo : "/");
+    return new Response(null, { status: 302, headers: { Location: url, "Set-Cookie": cookie } });
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 502);
+  }
+}
@@ -0,0 +1,11 @@
+import { cookieHeader, SESSION_COOKIE } from "@/lib/oidc";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Clears the SSO session cookie; the provider's own session is left alone.
+export async function POST(req: Request) {
+  return new Response(JSON.stringify({ ok: true }), {
+    headers: { "Content-Type": "application/json", "Set-Cookie": cookieHeader(req, SESSION_COOKIE, "", 0) },
+  });
+}
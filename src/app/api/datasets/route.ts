@@ -0,0 +1,21 @@
+import { jsonResponse, requireAuthIfConfigured } from "@/lib/auth";
+import { listDatasets } from "@/lib/dataset-catalog";
+import { canUseDataset } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  try {
+    // Only the datasets the caller's roles allow; the default falls back to the first of those.
+    const all = listDatasets();
+    const datasets = all.datasets.filter((d) => canUseDataset(auth.identity!, d.id));
+    const dflt = datasets.some((d) => d.id === all.default_dataset) ? all.default_dataset : (datasets[0]?.id ?? "");
+    return jsonResponse({ default_dataset: dflt, datasets });
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 500);
+  }
+}
@@ -0,0 +1,13 @@
+import { jsonResponse, requireAuthIfConfigured } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// The caller's identity, so the client can offer only the workspaces its roles allow.
+export async function GET(req: Request) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  const { name, roles, workspaces, admin, sso } = auth.identity!;
+  return jsonResponse({ name, roles, workspaces, admin, sso: sso === true });
+}
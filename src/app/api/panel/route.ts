@@ -0,0 +1,74 @@
+import { buildObservabilityPanel, buildPanel, getErrorMessage, restorePlan, storedPlanScope, type StoredPlan } from "@/lib/analysis";
+import { appendAuditRecord, newAuditRecord, withAuditRecord } from "@/lib/audit-log";
+import { forbidden, jsonResponse, requireAuthIfConfigured } from "@/lib/auth";
+import { acquireTurnSlot, turnQueueIssue } from "@/lib/rate-limit";
+import { splunkAccess, withSplunkToken } from "@/lib/splunk-credentials";
+import { planAccessIssue } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Retries one failed panel of a streamed plan; no planner or explainer call.
+type PanelReq = { plan?: unknown; index?: unknown; panel_id?: unknown };
+
+export async function POST(req: Request) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  const body = (await req.json().catch(() => ({}))) as PanelReq;
+  const index = Number(body?.index);
+  const panelId = String(body?.panel_id ?? "").trim();
+  if (!Number.isInteger(index) || index < 0) return jsonResponse({ error: "index must be a non-negative integer" }, 400);
+  if (!/^p_[a-z]+_\d+_\d+$/.test(panelId)) return jsonResponse({ error: "Invalid panel_id" }, 400);
+
+  let stored: StoredPlan;
+  try {
+    stored = restorePlan(body?.plan);
+  } catch (e: unknown) {
+    return jsonResponse({ error: getErrorMessage(e) }, 400);
+  }
+  const issue = planAccessIssue(auth.identity!, ...storedPlanScope(stored));
+  if (issue) return forbidden(issue);
+  const splunk = await splunkAccess(auth.identity!, stored.workspace);
+  if (!splunk.ok) return splunk.resp!;
+
+  // Same per-user limits as chat turns (live mode polls here); a queued retry just answers later.
+  const name = auth.identity!.name;
+  const full = turnQueueIssue(name);
+  if (full) {
+    const resp = jsonResponse({ error: full.message }, 429);
+    resp.headers.set("Retry-After", String(full.retryAfter));
+    return resp;
+  }
+  const started = Date.now();
+  let release: () => void;
+  try {
+    release = await acquireTurnSlot(name, req.signal, () => undefined);
+  } catch (e: unknown) {
+    return jsonResponse({ error: req.signal.aborted ? "Request aborted" : getErrorMessage(e) }, 429);
+  }
+
+  const audit = newAuditRecord("panel", name, stored.workspace, `panel ${index}`);
+  audit.plan = stored.plan;
+  const queued = Date.now() - started;
+  if (queued > 0) audit.stages.queued = queued;
+  let res: Response;
+  try {
+    const panel = await withAuditRecord(audit, () =>
+      stored.workspace === "observability"
+        ? buildObservabilityPanel(stored.plan, index, panelId, req.signal)
+        : withSplunkToken(splunk.token, () => buildPanel(stored.plan, stored.ds, index, panelId, req.signal)),
+    );
+    res = jsonResponse({ panel });
+  } catch (e: unknown) {
+    audit.error = getErrorMessage(e);
+    res = jsonResponse({ error: audit.error }, 502);
+  } finally {
+    release();
+  }
+  audit.stages.querying = Date.now() - started - queued;
+  audit.total_ms = Date.now() - started;
+  // A retry has no status channel; a failed audit write must not hide the panel.
+  await appendAuditRecord(audit).catch(() => undefined);
+  return res;
+}
@@ -0,0 +1,43 @@
+import { executePlan, fitTrendSpans, getErrorMessage, restorePlan, storedPlanScope, type StoredPlan } from "@/lib/analysis";
+import { forbidden, jsonResponse, requireAuthIfConfigured } from "@/lib/auth";
+import { isValidSessionId } from "@/lib/session-store";
+import { splunkAccess, withSplunkToken } from "@/lib/splunk-credentials";
+import { streamTurn, type TurnMeta } from "@/lib/turn-stream";
+import { planAccessIssue } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Runs a stored plan without the planner: same templates and filters, relative times resolved
+// against now, streamed like /api/chat. `reviewed` marks a plan confirmed in review mode rather
+// than a re-run of an earlier answer.
+type RunReq = { plan?: unknown; message?: string; reviewed?: boolean; session_id?: string };
+
+export async function POST(req: Request) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  const body = (await req.json().catch(() => ({}))) as RunReq;
+  const userMsg = String(body?.message ?? "").trim();
+  const sessionId = isValidSessionId(body?.session_id) ? body.session_id : null;
+
+  let stored: StoredPlan;
+  try {
+    stored = restorePlan(body?.plan);
+  } catch (e: unknown) {
+    return jsonResponse({ error: getErrorMessage(e) }, 400);
+  }
+  const issue = planAccessIssue(auth.identity!, ...storedPlanScope(stored));
+  if (issue) return forbidden(issue);
+  const splunk = await splunkAccess(auth.identity!, stored.workspace);
+  if (!splunk.ok) return splunk.resp!;
+
+  const reviewed = body?.reviewed === true;
+  const meta: TurnMeta = { route: "run", identity: auth.identity!, workspace: stored.workspace, user: userMsg, sessionId, rerun: !reviewed };
+  return streamTurn(req, meta, async (turn) => {
+    // An edited plan may carry a span that no longer fits its time range.
+    const warnings = stored.workspace === "security" ? fitTrendSpans(stored.plan) : [];
+    turn.write("plan_info", { source: reviewed ? "reviewed" : "rerun", warnings });
+    await withSplunkToken(splunk.token, () => executePlan(stored, userMsg, turn));
+  });
+}
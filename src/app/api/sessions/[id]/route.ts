@@ -0,0 +1,51 @@
+import { jsonResponse, requireAuthIfConfigured } from "@/lib/auth";
+import { deleteSession, getSession, normalizeLayout, updateSession } from "@/lib/session-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, ctx: Ctx) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  const { id } = await ctx.params;
+  const session = await getSession(id, auth.identity!);
+  if (!session) return jsonResponse({ error: "Session not found" }, 404);
+  return jsonResponse({ session });
+}
+
+export async function PATCH(req: Request, ctx: Ctx) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  const { id } = await ctx.params;
+  const body = (await req.json().catch(() => ({}))) as { title?: unknown; layout?: unknown };
+  const patch: Parameters<typeof updateSession>[2] = {};
+
+  if (body?.title !== undefined) {
+    if (typeof body.title !== "string" || !body.title.trim()) return jsonResponse({ error: "Invalid title" }, 400);
+    patch.title = body.title;
+  }
+  if (body?.layout !== undefined) {
+    const layout = normalizeLayout(body.layout);
+    if (!layout) return jsonResponse({ error: "Invalid layout" }, 400);
+    patch.layout = layout;
+  }
+  if (patch.title === undefined && patch.layout === undefined) return jsonResponse({ error: "Nothing to update" }, 400);
+
+  const session = await updateSession(id, auth.identity!, patch);
+  if (!session) return jsonResponse({ error: "Session not found" }, 404);
+  return jsonResponse({ session });
+}
+
+export async function DELETE(req: Request, ctx: Ctx) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  const { id } = await ctx.params;
+  const ok = await deleteSession(id, auth.identity!);
+  if (!ok) return jsonResponse({ error: "Session not found" }, 404);
+  return jsonResponse({ ok: true });
+}
@@ -0,0 +1,29 @@
+import { forbidden, jsonResponse, requireAuthIfConfigured } from "@/lib/auth";
+import { createSession, listSessions, type Workspace } from "@/lib/session-store";
+import { canUseWorkspace } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function parseWorkspace(v: unknown): Workspace | undefined {
+  return v === "security" || v === "observability" ? v : undefined;
+}
+
+export async function GET(req: Request) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  const workspace = parseWorkspace(new URL(req.url).searchParams.get("workspace"));
+  return jsonResponse({ sessions: await listSessions(auth.identity!, workspace) });
+}
+
+export async function POST(req: Request) {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth.resp!;
+
+  const body = (await req.json().catch(() => ({}))) as { workspace?: unknown; title?: unknown };
+  const workspace = parseWorkspace(body?.workspace) ?? "security";
+  if (!canUseWorkspace(auth.identity!, workspace)) return forbidden(`Your role does not allow the ${workspace} workspace`);
+  const session = await createSession(workspace, String(body?.title ?? ""), auth.identity!.name);
+  return jsonResponse({ session }, 201);
+}
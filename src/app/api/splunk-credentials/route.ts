@@ -0,0 +1,41 @@
+import { jsonResponse, requireAdmin } from "@/lib/auth";
+import { deleteCredential, listCredentialSubjects, setCredential, splunkCredentialsEnabled } from "@/lib/splunk-credentials";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Per-user Splunk MCP tokens. Tokens are write-only: GET lists the mapped subjects, never tokens.
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  try {
+    return jsonResponse({ enabled: splunkCredentialsEnabled(), credentials: await listCredentialSubjects() });
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 500);
+  }
+}
+
+export async function PUT(req: Request) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  const body = (await req.json().catch(() => ({}))) as { subject?: unknown; token?: unknown };
+  const subject = String(body?.subject ?? "").trim();
+  try {
+    await setCredential(subject, String(body?.token ?? ""));
+    return jsonResponse({ ok: true, subject });
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 400);
+  }
+}
+
+export async function DELETE(req: Request) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  const subject = String(new URL(req.url).searchParams.get("subject") ?? "").trim();
+  const ok = await deleteCredential(subject);
+  if (!ok) return jsonResponse({ error: "No credentials for that subject" }, 404);
+  return jsonResponse({ ok: true });
+}
@@ -0,0 +1,18 @@
+import { configuredBackends } from "@/lib/analysis";
+import { jsonResponse, requireAdmin } from "@/lib/auth";
+import { checkTls } from "@/lib/tls-config";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// The startup TLS self-check on demand: trust mode and certificate status of each backend.
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  try {
+    return jsonResponse({ backends: await checkTls(configuredBackends()) });
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 500);
+  }
+}
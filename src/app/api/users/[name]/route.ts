@@ -0,0 +1,43 @@
+import { jsonResponse, requireAdmin } from "@/lib/auth";
+import { deleteUser, updateUser } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ name: string }> };
+
+export async function PATCH(req: Request, ctx: Ctx) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  const { name } = await ctx.params;
+  const body = (await req.json().catch(() => ({}))) as { roles?: unknown; disabled?: unknown };
+  const patch: Parameters<typeof updateUser>[1] = {};
+  if (body?.roles !== undefined) {
+    if (!Array.isArray(body.roles)) return jsonResponse({ error: "roles must be an array" }, 400);
+    patch.roles = body.roles.map(String);
+  }
+  if (body?.disabled !== undefined) {
+    if (typeof body.disabled !== "boolean") return jsonResponse({ error: "disabled must be a boolean" }, 400);
+    patch.disabled = body.disabled;
+  }
+  if (patch.roles === undefined && patch.disabled === undefined) return jsonResponse({ error: "Nothing to update" }, 400);
+
+  try {
+    const user = await updateUser(name, patch);
+    if (!user) return jsonResponse({ error: "User not found" }, 404);
+    return jsonResponse({ user });
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 400);
+  }
+}
+
+export async function DELETE(req: Request, ctx: Ctx) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  const { name } = await ctx.params;
+  const ok = await deleteUser(name);
+  if (!ok) return jsonResponse({ error: "User not found" }, 404);
+  return jsonResponse({ ok: true });
+}
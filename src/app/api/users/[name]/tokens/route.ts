@@ -0,0 +1,39 @@
+import { jsonResponse, requireAdmin } from "@/lib/auth";
+import { issueToken, revokeToken } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ name: string }> };
+
+// Issues a token; the plaintext is in this response only.
+export async function POST(req: Request, ctx: Ctx) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  const { name } = await ctx.params;
+  const body = (await req.json().catch(() => ({}))) as { label?: unknown; expires_at?: unknown };
+  const label = typeof body?.label === "string" ? body.label.trim().slice(0, 120) : undefined;
+  let expires_at: string | undefined;
+  if (body?.expires_at !== undefined) {
+    const t = Date.parse(String(body.expires_at));
+    if (!Number.isFinite(t) || t <= Date.now()) return jsonResponse({ error: "expires_at must be a future ISO 8601 instant" }, 400);
+    expires_at = new Date(t).toISOString();
+  }
+
+  const issued = await issueToken(name, { label, expires_at });
+  if (!issued) return jsonResponse({ error: "User not found" }, 404);
+  return jsonResponse(issued, 201);
+}
+
+// Revokes one token: DELETE /api/users/<name>/tokens?id=<token id>.
+export async function DELETE(req: Request, ctx: Ctx) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  const { name } = await ctx.params;
+  const id = new URL(req.url).searchParams.get("id") ?? "";
+  const ok = await revokeToken(name, id);
+  if (!ok) return jsonResponse({ error: "Token not found" }, 404);
+  return jsonResponse({ ok: true });
+}
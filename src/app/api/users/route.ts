@@ -0,0 +1,26 @@
+import { jsonResponse, requireAdmin } from "@/lib/auth";
+import { createUser, listUsers } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  return jsonResponse({ users: await listUsers() });
+}
+
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req);
+  if (!auth.ok) return auth.resp!;
+
+  const body = (await req.json().catch(() => ({}))) as { name?: unknown; roles?: unknown };
+  const roles = Array.isArray(body?.roles) ? body.roles.map(String) : [];
+  try {
+    const user = await createUser(String(body?.name ?? "").trim(), roles);
+    return jsonResponse({ user }, 201);
+  } catch (e: unknown) {
+    return jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 400);
+  }
+}
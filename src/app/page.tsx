@@ -18,14 +18,48 @@ import {
   YAxis,
   Legend,
 } from "recharts";
-import { Moon, Sun, Settings, Trash2, Clipboard, X } from "lucide-react";
+import ReactGridLayout, { useContainerWidth, type Layout, type LayoutItem } from "react-grid-layout";
+import {
+  Moon,
+  Sun,
+  Settings,
+  Trash2,
+  Clipboard,
+  X,
+  History,
+  Plus,
+  Pencil,
+  Check,
+  Pin,
+  PinOff,
+  Square,
+  RotateCw,
+  LogIn,
+  LogOut,
+} from "lucide-react";
+
+// `question` on an assistant message is the request it answers, repeated when the turn is re-run.
+// `pendingPlan` is a plan awaiting review (review mode) before it is run.
+type ChatMsg = {
+  id: string;
+  role: "user" | "assistant";
+  text: string;
+  plan?: unknown;
+  planInfo?: PlanInfo;
+  question?: string;
+  pendingPlan?: unknown;
+};
 
-type ChatMsg = { id: string; role: "user" | "assistant"; text: string };
+// `plan_info` event: where the executed plan came from and the planning warnings on the way.
+type PlanInfo = { source: string; warnings: string[] };
 
 type ChartDatum = Record<string, string | number>;
+// Dataset field a bar/slice narrows on (its catalog group_by key) and its display label.
+type Drilldown = { group_by: string; label: string };
 type TableRow = Record<string, string | number | null | undefined>;
 
-type Panel =
+// `index` is the panel's position in its plan (re-run target); the merged topology panel has none.
+type Panel = (
   | { panel_id: string; title: string; kind: "single"; spl: string; label: string; value: number }
   | { panel_id: string; title: string; kind: "table"; spl: string; columns: string[]; rows: TableRow[] }
   | {
@@ -36,7 +70,7 @@ type Panel =
       xKey: string;
       yKey: string;
       data: ChartDatum[];
-      drilldownType: "severity" | "tag" | "node" | "net";
+      drilldown: Drilldown;
     }
   | {
       panel_id: string;
@@ -46,10 +80,13 @@ type Panel =
       xKey: string;
       yKey: string;
       data: ChartDatum[];
-      drilldownType: "severity" | "tag" | "node" | "net";
+      drilldown: Drilldown;
     }
   | { panel_id: string; title: string; kind: "line"; spl: string; xKey: string; seriesKeys: string[]; data: ChartDatum[] }
-  | { panel_id: string; title: string; kind: "network"; rows: NetworkRow[] };
+  | { panel_id: string; title: string; kind: "network"; rows: NetworkRow[] }
+  // A panel whose query failed (`panel_error` event); `index` is its position in the plan.
+  | { panel_id: string; title: string; kind: "error"; query: string; message: string; index: number }
+) & { index?: number };
 
 type NetworkNode = { id: string; label: string; status: "ok" | "alert" };
 type NetworkEdge = { from: string; to: string; label?: string };
@@ -62,6 +99,42 @@ type NetworkRow = {
   stats?: { policy_drop?: number; anomalies?: number };
 };
 
+type Workspace = "security" | "observability";
+
+// Mirrors /api/datasets: the filter inputs, count_by fields and trend splits a plan may use.
+type DatasetSummary = {
+  id: string;
+  label: string;
+  filters: Array<{ key: string; label: string; type: "exact" | "fuzzy" | "boolean" | "multivalue"; values?: string[] }>;
+  group_by: Array<{ key: string; label: string }>;
+  splits: Array<{ key: string; label: string }>;
+};
+
+// Loose client-side views of the plans streamed in `plan` events, as edited in review mode.
+type PlanFilters = Record<string, string | boolean | string[]>;
+type PlanOutput = { kind?: string; title?: string; template: string; group_by?: string; limit?: number; span?: string; split?: string };
+type PlanDraft = {
+  language?: string;
+  dataset?: string;
+  earliest_time?: string;
+  latest_time?: string;
+  filters?: PlanFilters;
+  outputs?: PlanOutput[];
+  requests?: Array<{ mcp: string; tool: string; target: string; metric: string; viz: string; title?: string }>;
+};
+
+type SessionSummary = { id: string; title: string; workspace: Workspace; updated_at: string; turn_count: number };
+type SessionTurn = {
+  user: string;
+  plan: unknown;
+  panels: Panel[];
+  panel_errors?: Array<Omit<Extract<Panel, { kind: "error" }>, "kind">>;
+  plan_info?: PlanInfo;
+  markdown: string;
+  rerun?: boolean;
+  cancelled?: boolean;
+};
+
 function uid(prefix: string) {
   return `${prefix}_${Date.now()}_${Math.random().toString(16).slice(2)}`;
 }
@@ -70,6 +143,15 @@ function detectLang(text: string): "zh" | "en" {
   return /[\u4e00-\u9fff]/.test(text) ? "zh" : "en";
 }
 
+function welcomeMessage(): ChatMsg {
+  return {
+    id: uid("a"),
+    role: "assistant",
+    text:
+      "\u8bf7\u7528\u81ea\u7136\u8bed\u8a00\u4e0e\u6211\u4ea4\u6d41\uff0c\u6211\u5c06\u7528\u53ef\u89c6\u5316\u7684\u6570\u636e\u56de\u7b54\u3002\n\nPlease talk to me in natural language, and I will answer with visualized data.\n",
+  };
+}
+
 function cn(...xs: Array<string | false | null | undefined>) {
   return xs.filter(Boolean).join(" ");
 }
@@ -85,20 +167,26 @@ const CHART_PALETTE = [
   "#F97316",
 ];
 
-function stageLabel(stage: string, lang: "zh" | "en") {
+// `position` is the place in the server's LLM queue while stage is "queued".
+function stageLabel(stage: string, lang: "zh" | "en", position = 0) {
+  if (stage === "queued") return lang === "zh" ? `\u6392\u961f\u4e2d\uff0c\u7b2c ${position} \u4f4d...` : `Queued, position ${position}...`;
   const zh: Record<string, string> = {
     planning: "\u6b63\u5728\u89c4\u5212\u8f93\u51fa...",
     querying_splunk: "\u6b63\u5728\u67e5\u8be2 Splunk...",
     querying_mcp: "\u6b63\u5728\u67e5\u8be2 MCP...",
     explaining: "\u6b63\u5728\u751f\u6210\u89e3\u91ca...",
-    planning_warning: "\u89c4\u5212\u8b66\u544a\uff0c\u5df2\u4f7f\u7528\u9ed8\u8ba4\u8ba1\u5212...",
+    planning_repair: "\u6b63\u5728\u4fee\u590d\u8ba1\u5212...",
+    planning_warning: "\u89c4\u5212\u8b66\u544a...",
+    session_warning: "\u4f1a\u8bdd\u672a\u80fd\u4fdd\u5b58...",
   };
   const en: Record<string, string> = {
     planning: "Planning...",
     querying_splunk: "Querying Splunk...",
     querying_mcp: "Querying MCPs...",
     explaining: "Explaining...",
-    planning_warning: "Planning warning, using fallback plan...",
+    planning_repair: "Repairing plan...",
+    planning_warning: "Planning warning...",
+    session_warning: "Session could not be saved...",
   };
   return (lang === "zh" ? zh : en)[stage] || (lang === "zh" ? "\u5904\u7406\u4e2d..." : "Working...");
 }
@@ -144,6 +232,54 @@ function MarkdownBlock({ text, tone }: { text: string; tone: "light" | "dark" })
   );
 }
 
+function planSourceLabel(source: string, lang: "zh" | "en") {
+  const zh: Record<string, string> = {
+    model: "\u6a21\u578b\u89c4\u5212",
+    repaired: "\u6a21\u578b\u89c4\u5212\uff08\u7ecf\u4fee\u590d\uff09",
+    fallback: "\u5907\u7528\u8ba1\u5212\uff08\u6a21\u578b\u8ba1\u5212\u4e0d\u53ef\u7528\uff09",
+    intent_override: "\u6309\u8bc6\u522b\u5230\u7684\u610f\u56fe\u66ff\u6362\u4e86\u6a21\u578b\u8ba1\u5212",
+    drilldown: "\u4e0b\u94bb\uff08\u672a\u8c03\u7528\u6a21\u578b\uff09",
+    rerun: "\u91cd\u65b0\u8fd0\u884c\u5148\u524d\u7684\u8ba1\u5212",
+    reviewed: "\u5ba1\u9605\u540e\u7f16\u8f91\u7684\u8ba1\u5212",
+  };
+  const en: Record<string, string> = {
+    model: "Model plan",
+    repaired: "Model plan, after repair",
+    fallback: "Fallback plan (model plan unusable)",
+    intent_override: "Model plan replaced to match the detected intent",
+    drilldown: "Drilldown (no model call)",
+    rerun: "Re-run of an earlier plan",
+    reviewed: "Plan edited in review",
+  };
+  return (lang === "zh" ? zh : en)[source] || source;
+}
+
+function PlanDetails({ plan, info, lang }: { plan: unknown; info?: PlanInfo; lang: "zh" | "en" }) {
+  return (
+    <details className="mt-1 max-w-[92%] rounded-xl border border-border/70 bg-card/60 text-left backdrop-blur">
+      <summary className="cursor-pointer select-none px-3 py-1.5 text-[11px] font-semibold text-muted-foreground">
+        {lang === "zh" ? "\u8fd9\u4e2a\u56de\u7b54\u662f\u5982\u4f55\u5f97\u51fa\u7684" : "How this was answered"}
+      </summary>
+      <div className="space-y-2 px-3 pb-3 text-[11px] text-foreground/90">
+        {info && (
+          <div>
+            <span className="text-muted-foreground">{lang === "zh" ? "\u8ba1\u5212\u6765\u6e90\uff1a" : "Plan source: "}</span>
+            {planSourceLabel(info.source, lang)}
+          </div>
+        )}
+        {info && info.warnings.length > 0 && (
+          <ul className="list-disc pl-4 text-muted-foreground">
+            {info.warnings.map((w, i) => (
+              <li key={i}>{w}</li>
+            ))}
+          </ul>
+        )}
+        <pre className="whitespace-pre-wrap break-words leading-5">{JSON.stringify(plan, null, 2)}</pre>
+      </div>
+    </details>
+  );
+}
+
 function QueryDetails({ query, label = "Query / MCP" }: { query: string; label?: string }) {
   const s = String(query || "").trim();
   if (!s) return null;
@@ -186,25 +322,121 @@ function IconButton({
   );
 }
 
-function PanelShell({ title, onClose, children }: { title: string; onClose: () => void; children: React.ReactNode }) {
+function PanelShell({
+  title,
+  pinned,
+  onTogglePin,
+  onClose,
+  onRerun,
+  rerunning = false,
+  children,
+}: {
+  title: string;
+  pinned: boolean;
+  onTogglePin: () => void;
+  onClose: () => void;
+  onRerun?: () => void;
+  rerunning?: boolean;
+  children: React.ReactNode;
+}) {
   return (
-    <div className="rounded-2xl border border-border/70 bg-card/70 backdrop-blur shadow-xl">
-      <div className="flex items-center justify-between px-4 py-3 border-b border-border/60">
-        <div className="text-sm font-semibold text-foreground">{title}</div>
-        <button
-          onClick={onClose}
-          className="h-8 w-8 rounded-xl border border-border/60 bg-card/70 hover:bg-card/90 text-muted-foreground transition"
-          aria-label="Close"
-          title="Close"
-        >
-          <X className="h-4 w-4 mx-auto" />
-        </button>
+    <div className="flex h-full flex-col rounded-2xl border border-border/70 bg-card/70 backdrop-blur shadow-xl">
+      <div
+        className={cn(
+          "panel-drag-handle flex items-center justify-between gap-2 px-4 py-3 border-b border-border/60",
+          pinned ? "cursor-default" : "cursor-move",
+        )}
+      >
+        <div className="truncate text-sm font-semibold text-foreground">{title}</div>
+        <div className="flex shrink-0 items-center gap-2">
+          {onRerun && (
+            <button
+              onClick={onRerun}
+              disabled={rerunning}
+              className="h-8 w-8 rounded-xl border border-border/60 bg-card/70 hover:bg-card/90 text-muted-foreground transition disabled:opacity-50"
+              aria-label="Re-run"
+              title="Re-run this panel"
+            >
+              <RotateCw className={cn("h-4 w-4 mx-auto", rerunning && "animate-spin")} />
+            </button>
+          )}
+          <button
+            onClick={onTogglePin}
+            className={cn(
+              "h-8 w-8 rounded-xl border border-border/60 bg-card/70 hover:bg-card/90 transition",
+              pinned ? "text-foreground" : "text-muted-foreground",
+            )}
+            aria-label={pinned ? "Unpin" : "Pin"}
+            title={pinned ? "Unpin" : "Pin"}
+          >
+            {pinned ? <PinOff className="h-4 w-4 mx-auto" /> : <Pin className="h-4 w-4 mx-auto" />}
+          </button>
+          <button
+            onClick={onClose}
+            className="h-8 w-8 rounded-xl border border-border/60 bg-card/70 hover:bg-card/90 text-muted-foreground transition"
+            aria-label="Close"
+            title="Close"
+          >
+            <X className="h-4 w-4 mx-auto" />
+          </button>
+        </div>
       </div>
-      <div className="p-4">{children}</div>
+      <div className="flex-1 min-h-0 overflow-auto p-4">{children}</div>
     </div>
   );
 }
 
+const CANVAS_COLS = 12;
+
+// Live mode: how often line panels are re-queried (no LLM call) and how many points they keep.
+const LIVE_INTERVALS = [
+  { ms: 0, label: "Off" },
+  { ms: 30_000, label: "30s" },
+  { ms: 60_000, label: "1m" },
+  { ms: 300_000, label: "5m" },
+];
+const LIVE_MAX_POINTS = 500;
+
+// Points are matched on their epoch `ts`: the "HH:MM" x label repeats across days, so it is only the
+// key for rows without one.
+function pointKey(d: ChartDatum, xKey: string): string {
+  return d.ts !== undefined ? `ts:${d.ts}` : `x:${d[xKey]}`;
+}
+
+// Points of the fresh window replace the same points; older points stay, so the chart keeps scrolling.
+function mergeLineData(prev: Extract<Panel, { kind: "line" }>, next: Extract<Panel, { kind: "line" }>): Panel {
+  const fresh = new Set(next.data.map((d) => pointKey(d, next.xKey)));
+  const data = [...prev.data.filter((d) => !fresh.has(pointKey(d, prev.xKey))), ...next.data].slice(-LIVE_MAX_POINTS);
+  const seriesKeys = Array.from(new Set([...prev.seriesKeys, ...next.seriesKeys]));
+  return { ...next, panel_id: prev.panel_id, data, seriesKeys };
+}
+
+// Default footprint (grid units, 40px rows) for a freshly streamed panel.
+function defaultPanelSize(p: Panel): { w: number; h: number } {
+  if (p.kind === "single") return { w: 4, h: 5 };
+  if (p.kind === "error") return { w: 6, h: 6 };
+  if (p.kind === "table" || p.kind === "network") return { w: 12, h: 11 };
+  return { w: 6, h: 10 };
+}
+
+// Fill rows left to right; the vertical compactor floats the new item up next to its neighbour.
+function placePanel(p: Panel, layout: LayoutItem[]): LayoutItem {
+  const { w, h } = defaultPanelSize(p);
+  const last = layout[layout.length - 1];
+  let x = last ? last.x + last.w : 0;
+  if (x + w > CANVAS_COLS) x = 0;
+  return { i: p.panel_id, x, y: Infinity, w, h, minW: 3, minH: 4 };
+}
+
+function withPanelLayout(panels: Panel[], layout: LayoutItem[]): LayoutItem[] {
+  const ids = new Set(panels.map((p) => p.panel_id));
+  const out = layout.filter((l) => ids.has(l.i));
+  for (const p of panels) {
+    if (!out.some((l) => l.i === p.panel_id)) out.push(placePanel(p, out));
+  }
+  return out;
+}
+
 function SinglePanel({ p }: { p: Extract<Panel, { kind: "single" }> }) {
   return (
     <div>
@@ -230,11 +462,36 @@ function rechartsTooltipStyle() {
   } as const;
 }
 
-function BarPanel({ p }: { p: Extract<Panel, { kind: "bar" }> }) {
+function drilldownLabel(dd: Drilldown, value: string, lang: "zh" | "en") {
+  return lang === "zh" ? `\u4e0b\u94bb\uff1a${dd.label} = ${value}` : `Drill down: ${dd.label} = ${value}`;
+}
+
+function rerunLabel(question: string, lang: "zh" | "en") {
+  return lang === "zh" ? `\u91cd\u65b0\u8fd0\u884c\uff1a${question}` : `Re-run: ${question}`;
+}
+
+function planWorkspace(plan: unknown): Workspace {
+  return plan && typeof plan === "object" && Array.isArray((plan as { requests?: unknown }).requests) ? "observability" : "security";
+}
+
+function stoppedNote(lang: "zh" | "en") {
+  return lang === "zh" ? "_\u5df2\u505c\u6b62\u3002_" : "_Stopped._";
+}
+
+function withStoppedNote(text: string, lang: "zh" | "en") {
+  return text ? `${text}\n\n${stoppedNote(lang)}` : stoppedNote(lang);
+}
+
+function planDataset(plan: unknown): string | undefined {
+  const id = plan && typeof plan === "object" ? (plan as { dataset?: unknown }).dataset : undefined;
+  return typeof id === "string" ? id : undefined;
+}
+
+function BarPanel({ p, onDrilldown }: { p: Extract<Panel, { kind: "bar" }>; onDrilldown?: (value: string) => void }) {
   const data = Array.isArray(p.data) ? p.data : [];
   return (
-    <div>
-      <div className="h-72 w-full">
+    <div className="flex h-full flex-col">
+      <div className="min-h-48 w-full flex-1">
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={data} layout="vertical" margin={{ left: 12, right: 18, top: 8, bottom: 8 }}>
             <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="4 4" opacity={0.65} />
@@ -247,8 +504,13 @@ function BarPanel({ p }: { p: Extract<Panel, { kind: "bar" }> }) {
             />
             <Tooltip contentStyle={rechartsTooltipStyle()} cursor={{ fill: "rgba(255,255,255,0.04)" }} />
             <Bar dataKey={p.yKey} radius={[10, 10, 10, 10]} barSize={16}>
-              {data.map((_, idx) => (
-                <Cell key={idx} fill={CHART_PALETTE[idx % CHART_PALETTE.length]} />
+              {data.map((d, idx) => (
+                <Cell
+                  key={idx}
+                  fill={CHART_PALETTE[idx % CHART_PALETTE.length]}
+                  cursor={onDrilldown ? "pointer" : undefined}
+                  onClick={onDrilldown ? () => onDrilldown(String(d[p.xKey] ?? "")) : undefined}
+                />
               ))}
             </Bar>
           </BarChart>
@@ -259,18 +521,23 @@ function BarPanel({ p }: { p: Extract<Panel, { kind: "bar" }> }) {
   );
 }
 
-function PiePanel({ p }: { p: Extract<Panel, { kind: "pie" }> }) {
+function PiePanel({ p, onDrilldown }: { p: Extract<Panel, { kind: "pie" }>; onDrilldown?: (value: string) => void }) {
   const data = Array.isArray(p.data) ? p.data : [];
   return (
-    <div>
-      <div className="h-72 w-full">
+    <div className="flex h-full flex-col">
+      <div className="min-h-48 w-full flex-1">
         <ResponsiveContainer width="100%" height="100%">
           <PieChart>
             <Tooltip contentStyle={rechartsTooltipStyle()} />
             <Legend wrapperStyle={{ color: "hsl(var(--muted-foreground))" }} />
             <Pie data={data} dataKey={p.yKey} nameKey={p.xKey} outerRadius={110} stroke="hsl(var(--border))">
-              {data.map((_, idx) => (
-                <Cell key={idx} fill={CHART_PALETTE[idx % CHART_PALETTE.length]} />
+              {data.map((d, idx) => (
+                <Cell
+                  key={idx}
+                  fill={CHART_PALETTE[idx % CHART_PALETTE.length]}
+                  cursor={onDrilldown ? "pointer" : undefined}
+                  onClick={onDrilldown ? () => onDrilldown(String(d[p.xKey] ?? "")) : undefined}
+                />
               ))}
             </Pie>
           </PieChart>
@@ -284,8 +551,8 @@ function PiePanel({ p }: { p: Extract<Panel, { kind: "pie" }> }) {
 function LinePanel({ p }: { p: Extract<Panel, { kind: "line" }> }) {
   const data = Array.isArray(p.data) ? p.data : [];
   return (
-    <div>
-      <div className="h-72 w-full">
+    <div className="flex h-full flex-col">
+      <div className="min-h-48 w-full flex-1">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart data={data} margin={{ left: 12, right: 18, top: 8, bottom: 8 }}>
             <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="4 4" opacity={0.65} />
@@ -316,9 +583,9 @@ function TablePanel({ p }: { p: Extract<Panel, { kind: "table" }> }) {
   const rows = Array.isArray(p.rows) ? p.rows : [];
   const cols = Array.isArray(p.columns) ? p.columns : [];
   return (
-    <div className="w-full">
+    <div className="flex h-full w-full flex-col">
       <div className="mb-2 text-xs text-muted-foreground">Rows: {rows.length}</div>
-      <div className="max-h-80 overflow-auto rounded-xl border border-border/70 bg-card/40">
+      <div className="min-h-32 flex-1 overflow-auto rounded-xl border border-border/70 bg-card/40">
         <table className="w-full text-xs">
           <thead className="sticky top-0 bg-card/80 backdrop-blur border-b border-border/70">
             <tr>
@@ -355,6 +622,314 @@ function TablePanel({ p }: { p: Extract<Panel, { kind: "table" }> }) {
   );
 }
 
+// Time picker: null lets the planner choose; otherwise sent as time_range and applied over the plan.
+type TimeRange = { earliest: string; latest: string };
+
+const TIME_PRESETS = [
+  { value: "", label: "Planner decides" },
+  { value: "-15m", label: "Last 15 minutes" },
+  { value: "-1h", label: "Last hour" },
+  { value: "-4h", label: "Last 4 hours" },
+  { value: "-24h", label: "Last 24 hours" },
+  { value: "-7d", label: "Last 7 days" },
+  { value: "custom", label: "Custom range..." },
+];
+
+// datetime-local works in browser local time without an offset; plans carry ISO instants.
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  if (!Number.isFinite(d.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function fromLocalInput(v: string): string {
+  const d = new Date(v);
+  return Number.isFinite(d.getTime()) ? d.toISOString() : "";
+}
+
+function TimeRangePicker({ value, onChange }: { value: TimeRange | null; onChange: (v: TimeRange | null) => void }) {
+  const preset = !value ? "" : value.latest === "now" && TIME_PRESETS.some((p) => p.value === value.earliest) ? value.earliest : "custom";
+  const [custom, setCustom] = useState(preset === "custom");
+  const selectValue = custom ? "custom" : preset;
+
+  const pick = (v: string) => {
+    if (v === "custom") {
+      setCustom(true);
+      const end = Date.now();
+      onChange({ earliest: new Date(end - 3600_000).toISOString(), latest: new Date(end).toISOString() });
+      return;
+    }
+    setCustom(false);
+    onChange(v ? { earliest: v, latest: "now" } : null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <select value={selectValue} onChange={(e) => pick(e.target.value)} title="Time range" className={fieldClass}>
+        {TIME_PRESETS.map((p) => (
+          <option key={p.value} value={p.value}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+      {custom && value && (
+        <>
+          <input
+            type="datetime-local"
+            className={fieldClass}
+            value={toLocalInput(value.earliest)}
+            onChange={(e) => onChange({ ...value, earliest: fromLocalInput(e.target.value) })}
+          />
+          <span>-</span>
+          <input
+            type="datetime-local"
+            className={fieldClass}
+            value={toLocalInput(value.latest)}
+            onChange={(e) => onChange({ ...value, latest: fromLocalInput(e.target.value) })}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+const OUTPUT_TEMPLATES = [
+  { value: "count", label: "Count" },
+  { value: "table", label: "Table" },
+  { value: "count_by", label: "Count by field" },
+  { value: "trend", label: "Trend" },
+];
+
+// A Security plan runs at most this many outputs (the server's cap).
+const MAX_PLAN_OUTPUTS = 4;
+
+const fieldClass = "rounded-lg border border-border/70 bg-background/40 px-2 py-1 text-xs text-foreground outline-none focus:ring-2 focus:ring-ring/50";
+
+// Review mode: the normalized plan as a form. The server re-validates whatever is submitted.
+function PlanEditor({
+  plan,
+  dataset,
+  onRun,
+  onDiscard,
+}: {
+  plan: unknown;
+  dataset?: DatasetSummary;
+  onRun: (plan: PlanDraft) => void;
+  onDiscard: () => void;
+}) {
+  const [draft, setDraft] = useState<PlanDraft>(() => structuredClone((plan ?? {}) as PlanDraft));
+  const filters = draft.filters ?? {};
+  const outputs = draft.outputs ?? [];
+
+  const setFilter = (key: string, value: string | boolean | string[] | undefined) => {
+    const next = { ...filters };
+    if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) delete next[key];
+    else next[key] = value;
+    setDraft({ ...draft, filters: next });
+  };
+  const setOutput = (idx: number, out: PlanOutput) => setDraft({ ...draft, outputs: outputs.map((o, i) => (i === idx ? out : o)) });
+
+  return (
+    <div className="mt-2 rounded-xl border border-border/70 bg-card/60 p-3 text-left text-xs text-foreground shadow-sm">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Earliest</span>
+          <input className={fieldClass} value={draft.earliest_time ?? ""} onChange={(e) => setDraft({ ...draft, earliest_time: e.target.value })} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Latest</span>
+          <input className={fieldClass} value={draft.latest_time ?? ""} onChange={(e) => setDraft({ ...draft, latest_time: e.target.value })} />
+        </label>
+      </div>
+
+      {draft.requests && (
+        <div className="mt-3">
+          <div className="mb-1 font-semibold text-muted-foreground">Requests</div>
+          {draft.requests.map((r, i) => (
+            <div key={`${r.mcp}/${r.tool}/${r.target}/${r.metric}`} className="flex items-center justify-between gap-2 py-0.5">
+              <span className="truncate">
+                {r.title || r.metric} <span className="text-muted-foreground">({r.mcp} / {r.target})</span>
+              </span>
+              <button
+                onClick={() => setDraft({ ...draft, requests: draft.requests!.filter((_, j) => j !== i) })}
+                disabled={draft.requests!.length <= 1}
+                title="Remove request"
+                className="text-muted-foreground hover:text-foreground disabled:opacity-40"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dataset && (
+        <div className="mt-3 space-y-2">
+          <div className="font-semibold text-muted-foreground">Filters</div>
+          {dataset.filters.map((f) => {
+            const v = filters[f.key];
+            if (f.type === "exact" && f.values) {
+              const picked = Array.isArray(v) ? v : [];
+              return (
+                <div key={f.key} className="flex flex-wrap items-center gap-2">
+                  <span className="w-32 shrink-0 text-muted-foreground">{f.label}</span>
+                  {f.values.map((val) => (
+                    <label key={val} className="inline-flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={picked.includes(val)}
+                        onChange={(e) => setFilter(f.key, e.target.checked ? [...picked, val] : picked.filter((x) => x !== val))}
+                      />
+                      {val}
+                    </label>
+                  ))}
+                </div>
+              );
+            }
+            if (f.type === "boolean") {
+              return (
+                <label key={f.key} className="flex items-center gap-2">
+                  <span className="w-32 shrink-0 text-muted-foreground">{f.label}</span>
+                  <select
+                    className={fieldClass}
+                    value={typeof v === "boolean" ? String(v) : ""}
+                    onChange={(e) => setFilter(f.key, e.target.value === "" ? undefined : e.target.value === "true")}
+                  >
+                    <option value="">Any</option>
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </select>
+                </label>
+              );
+            }
+            const list = f.type !== "fuzzy";
+            return (
+              <label key={f.key} className="flex items-center gap-2">
+                <span className="w-32 shrink-0 text-muted-foreground">{f.label}</span>
+                <input
+                  className={cn(fieldClass, "flex-1")}
+                  placeholder={list ? "comma-separated" : "contains..."}
+                  value={Array.isArray(v) ? v.join(", ") : typeof v === "string" ? v : ""}
+                  onChange={(e) =>
+                    setFilter(
+                      f.key,
+                      list
+                        ? e.target.value
+                            .split(",")
+                            .map((x) => x.trim())
+                            .filter(Boolean)
+                        : e.target.value,
+                    )
+                  }
+                />
+              </label>
+            );
+          })}
+
+          <div className="pt-1 font-semibold text-muted-foreground">Outputs</div>
+          {outputs.map((o, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2">
+              <select
+                className={fieldClass}
+                value={o.template}
+                onChange={(e) => setOutput(i, { template: e.target.value, title: o.title })}
+              >
+                {OUTPUT_TEMPLATES.map((t) => (
+                  <option key={t.value} value={t.value}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+              <input className={cn(fieldClass, "min-w-0 flex-1")} value={o.title ?? ""} onChange={(e) => setOutput(i, { ...o, title: e.target.value })} />
+              {o.template === "count_by" && (
+                <>
+                  <select className={fieldClass} value={o.group_by ?? ""} onChange={(e) => setOutput(i, { ...o, group_by: e.target.value })}>
+                    {dataset.group_by.map((g) => (
+                      <option key={g.key} value={g.key}>
+                        {g.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select className={fieldClass} value={o.kind === "pie" ? "pie" : "bar"} onChange={(e) => setOutput(i, { ...o, kind: e.target.value })}>
+                    <option value="bar">Bar</option>
+                    <option value="pie">Pie</option>
+                  </select>
+                </>
+              )}
+              {o.template === "trend" && (
+                <>
+                  <input className={cn(fieldClass, "w-16")} value={o.span ?? ""} placeholder="span" onChange={(e) => setOutput(i, { ...o, span: e.target.value })} />
+                  <select className={fieldClass} value={o.split ?? "none"} onChange={(e) => setOutput(i, { ...o, split: e.target.value })}>
+                    <option value="none">No split</option>
+                    {dataset.splits.map((sp) => (
+                      <option key={sp.key} value={sp.key}>
+                        By {sp.label}
+                      </option>
+                    ))}
+                  </select>
+                </>
+              )}
+              <button
+                onClick={() => setDraft({ ...draft, outputs: outputs.filter((_, j) => j !== i) })}
+                title="Remove output"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDraft({ ...draft, outputs: [...outputs, { template: "table", title: "Events" }] })}
+            disabled={outputs.length >= MAX_PLAN_OUTPUTS}
+            title={outputs.length >= MAX_PLAN_OUTPUTS ? `At most ${MAX_PLAN_OUTPUTS} outputs` : undefined}
+            className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground disabled:opacity-40"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add output
+          </button>
+        </div>
+      )}
+
+      <div className="mt-3 flex justify-end gap-2">
+        <button onClick={onDiscard} className="rounded-lg border border-border/70 bg-card/60 px-3 py-1 text-xs hover:bg-card/80">
+          Discard
+        </button>
+        <button onClick={() => onRun(draft)} className="rounded-lg bg-primary px-3 py-1 text-xs font-semibold text-primary-foreground hover:opacity-90">
+          Run plan
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ErrorPanel({
+  p,
+  retrying,
+  onRetry,
+}: {
+  p: Extract<Panel, { kind: "error" }>;
+  retrying: boolean;
+  onRetry: () => void;
+}) {
+  return (
+    <div>
+      <div className="rounded-xl border border-destructive/40 bg-destructive/10 px-3 py-2 text-xs text-foreground whitespace-pre-wrap break-words">
+        {p.message}
+      </div>
+      <button
+        onClick={onRetry}
+        disabled={retrying}
+        className="mt-3 inline-flex items-center gap-1.5 rounded-xl border border-border/70 bg-card/60 px-3 py-1.5 text-xs text-foreground shadow-sm transition hover:bg-card/80 disabled:opacity-50"
+      >
+        <RotateCw className={cn("h-3.5 w-3.5", retrying && "animate-spin")} />
+        <span>{retrying ? "Retrying..." : "Retry"}</span>
+      </button>
+      <QueryDetails query={p.query} />
+    </div>
+  );
+}
+
 function NetworkPanel({ p }: { p: Extract<Panel, { kind: "network" }> }) {
   const rows = Array.isArray(p.rows) ? p.rows : [];
   const [zoomByRow, setZoomByRow] = useState<Record<string, number>>({});
@@ -570,6 +1145,9 @@ function ConfigModal({
   tokenSet,
   storageMode,
   setStorageMode,
+  ssoLoginUrl,
+  ssoUser,
+  onSignOut,
 }: {
   open: boolean;
   onClose: () => void;
@@ -578,7 +1156,11 @@ function ConfigModal({
   tokenSet: boolean;
   storageMode: TokenStorageMode;
   setStorageMode: (m: TokenStorageMode) => void;
-  }) {
+  // Offered when the server has OIDC configured; ssoUser is set while an SSO session is active.
+  ssoLoginUrl: string | null;
+  ssoUser: string | null;
+  onSignOut: () => void;
+}) {
   const [draft, setDraft] = useState("");
 
   async function pasteFromClipboard() {
@@ -618,6 +1200,34 @@ function ConfigModal({
         </div>
 
         <div className="p-4 space-y-4">
+          {(ssoLoginUrl || ssoUser) && (
+            <div className="rounded-xl border border-border/70 bg-card/50 p-3 flex items-center justify-between gap-2">
+              <div>
+                <div className="text-xs font-semibold text-foreground">Single sign-on</div>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {ssoUser ? `Signed in as ${ssoUser.replace(/^sso:/, "")}` : "Sign in with your company account instead of a token."}
+                </div>
+              </div>
+              {ssoUser ? (
+                <button
+                  onClick={onSignOut}
+                  className="inline-flex items-center gap-2 rounded-xl border border-border/70 bg-card/60 px-3 py-2 text-sm text-foreground hover:bg-card/80 transition"
+                >
+                  <LogOut className="h-4 w-4" />
+                  Sign out
+                </button>
+              ) : (
+                <a
+                  href={`${ssoLoginUrl}?return_to=${encodeURIComponent("/")}`}
+                  className="inline-flex items-center gap-2 rounded-xl bg-primary px-3 py-2 text-sm font-semibold text-primary-foreground hover:opacity-90 transition"
+                >
+                  <LogIn className="h-4 w-4" />
+                  Sign in with SSO
+                </a>
+              )}
+            </div>
+          )}
+
           <div className="rounded-xl border border-border/70 bg-card/50 p-3">
             <div className="flex items-center justify-between">
               <div className="text-xs font-semibold text-foreground">Access Token</div>
@@ -705,10 +1315,161 @@ function ConfigModal({
   );
 }
 
+function SessionRow({
+  s,
+  active,
+  onOpen,
+  onRename,
+  onDelete,
+}: {
+  s: SessionSummary;
+  active: boolean;
+  onOpen: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(s.title);
+
+  function commit() {
+    const t = draft.trim();
+    if (t && t !== s.title) onRename(t);
+    setEditing(false);
+  }
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border px-3 py-2 transition",
+        active ? "border-primary/60 bg-primary/10" : "border-border/60 bg-card/50 hover:bg-card/80",
+      )}
+    >
+      {editing ? (
+        <div className="flex items-center gap-2">
+          <input
+            value={draft}
+            autoFocus
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commit();
+              if (e.key === "Escape") setEditing(false);
+            }}
+            className="w-full rounded-lg border border-border/70 bg-background/40 px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-ring/50"
+          />
+          <button onClick={commit} className="text-muted-foreground hover:text-foreground" title="Save title" aria-label="Save title">
+            <Check className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between gap-2">
+          <button onClick={onOpen} className="min-w-0 flex-1 text-left" title={s.title}>
+            <div className="truncate text-xs font-semibold text-foreground">{s.title}</div>
+            <div className="mt-0.5 text-[11px] text-muted-foreground">
+              {new Date(s.updated_at).toLocaleString()} · {s.turn_count} turns
+            </div>
+          </button>
+          <div className="flex shrink-0 items-center gap-1">
+            <button
+              onClick={() => {
+                setDraft(s.title);
+                setEditing(true);
+              }}
+              className="text-muted-foreground hover:text-foreground"
+              title="Rename"
+              aria-label="Rename"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+            <button onClick={onDelete} className="text-muted-foreground hover:text-foreground" title="Delete" aria-label="Delete">
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SessionsDrawer({
+  open,
+  onClose,
+  workspace,
+  sessions,
+  activeId,
+  error,
+  onNew,
+  onOpen,
+  onRename,
+  onDelete,
+}: {
+  open: boolean;
+  onClose: () => void;
+  workspace: Workspace;
+  sessions: SessionSummary[];
+  activeId: string | null;
+  error: string;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40" onClick={onClose}>
+      <div
+        className="flex h-full w-full max-w-sm flex-col border-r border-border/70 bg-card/90 backdrop-blur shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-border/60 flex items-center justify-between">
+          <div>
+            <div className="text-sm font-semibold text-foreground">Sessions</div>
+            <div className="mt-1 text-xs text-muted-foreground">
+              {workspace === "observability" ? "Observability analytics workspace" : "Security analytics workspace"}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <IconButton onClick={onNew} title="New session">
+              <Plus className="h-4 w-4" />
+            </IconButton>
+            <button
+              onClick={onClose}
+              className="h-9 w-9 rounded-xl border border-border/60 bg-card/70 hover:bg-card/90 text-muted-foreground transition"
+              title="Close"
+              aria-label="Close"
+            >
+              <X className="h-4 w-4 mx-auto" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto p-4 space-y-2">
+          {error && <div className="text-xs text-muted-foreground">{error}</div>}
+          {sessions.map((s) => (
+            <SessionRow
+              key={s.id}
+              s={s}
+              active={s.id === activeId}
+              onOpen={() => onOpen(s.id)}
+              onRename={(t) => onRename(s.id, t)}
+              onDelete={() => onDelete(s.id)}
+            />
+          ))}
+          {!error && sessions.length === 0 && (
+            <div className="text-xs text-muted-foreground">No saved sessions yet. Ask a question to start one.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function Page() {
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
+  const runAbort = useRef<AbortController | null>(null);
   const [stage, setStage] = useState("planning");
+  const [queuePosition, setQueuePosition] = useState(0);
 
   // Token storage: load once on client, then write only after ready.
   const [storageReady, setStorageReady] = useState(false);
@@ -717,19 +1478,37 @@ export default function Page() {
 
   const [configOpen, setConfigOpen] = useState(false);
   const [dark, setDark] = useState(true);
-  const [workspace, setWorkspace] = useState<"security" | "observability">("security");
+  const [workspace, setWorkspace] = useState<Workspace>("security");
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  // Workspaces the signed-in user's roles allow (from /api/me).
+  const [allowedWorkspaces, setAllowedWorkspaces] = useState<Workspace[]>(["security", "observability"]);
+  const [ssoLoginUrl, setSsoLoginUrl] = useState<string | null>(null);
+  const [ssoUser, setSsoUser] = useState<string | null>(null);
+  // Bumped to re-read /api/me after signing out.
+  const [meVersion, setMeVersion] = useState(0);
+  const [dataset, setDataset] = useState("");
   const [promptOpen, setPromptOpen] = useState(true);
 
-  const [messages, setMessages] = useState<ChatMsg[]>([
-    {
-      id: uid("a"),
-      role: "assistant",
-      text:
-        "\u8bf7\u7528\u81ea\u7136\u8bed\u8a00\u4e0e\u6211\u4ea4\u6d41\uff0c\u6211\u5c06\u7528\u53ef\u89c6\u5316\u7684\u6570\u636e\u56de\u7b54\u3002\n\nPlease talk to me in natural language, and I will answer with visualized data.\n",
-    },
-  ]);
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionsError, setSessionsError] = useState("");
+  const [sessionId, setSessionId] = useState<string | null>(null);
+
+  const [messages, setMessages] = useState<ChatMsg[]>(() => [welcomeMessage()]);
 
   const [panels, setPanels] = useState<Panel[]>([]);
+  // Plan that produced each panel, so drilldowns keep its time range and filters.
+  const [panelPlans, setPanelPlans] = useState<Record<string, unknown>>({});
+  const [layout, setLayout] = useState<LayoutItem[]>([]);
+  const [retrying, setRetrying] = useState<Record<string, boolean>>({});
+  const [liveMs, setLiveMs] = useState(0);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [timeRange, setTimeRange] = useState<TimeRange | null>(null);
+  const liveTick = useRef<() => void>(() => {});
+  const liveBusy = useRef(false);
+  const layoutSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savedLayoutJson = useRef("");
+  const { width: canvasWidth, containerRef: canvasRef, mounted: canvasMounted } = useContainerWidth();
   const bottomRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
@@ -785,29 +1564,236 @@ export default function Page() {
     return [zh[0], en[0], zh[1], en[1], zh[2], en[2]];
   }, [workspace]);
 
+  function authHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (accessToken) headers["Authorization"] = `Bearer ${accessToken}`;
+    return headers;
+  }
+
+  async function sessionsApi(path: string, init: RequestInit = {}) {
+    const resp = await fetch(path, { ...init, headers: authHeaders() });
+    if (resp.status === 401) {
+      setConfigOpen(true);
+      throw new Error("Unauthorized (401).");
+    }
+    const j = await resp.json().catch(() => null);
+    if (!resp.ok) throw new Error(j?.error || `HTTP ${resp.status}`);
+    return j;
+  }
+
+  async function refreshSessions(ws: Workspace = workspace) {
+    try {
+      const j = await sessionsApi(`/api/sessions?workspace=${ws}`);
+      setSessions(Array.isArray(j?.sessions) ? j.sessions : []);
+      setSessionsError("");
+    } catch (e: unknown) {
+      setSessionsError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  useEffect(() => {
+    if (!storageReady) return;
+    fetch("/api/datasets", { headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {} })
+      .then((resp) => (resp.ok ? resp.json() : null))
+      .then((j) => {
+        const list: DatasetSummary[] = Array.isArray(j?.datasets) ? j.datasets : [];
+        setDatasets(list);
+        setDataset((cur) => (list.some((d) => d.id === cur) ? cur : String(j?.default_dataset ?? list[0]?.id ?? "")));
+      })
+      .catch(() => setDatasets([]));
+  }, [storageReady, accessToken]);
+
+  useEffect(() => {
+    if (!storageReady) return;
+    fetch("/api/me", { headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {} })
+      .then((resp) => resp.json().then((j) => ({ ok: resp.ok, j })))
+      .then(({ ok, j }) => {
+        if (typeof j?.login_url === "string") setSsoLoginUrl(j.login_url);
+        setSsoUser(ok && j?.sso === true ? String(j.name) : null);
+        if (!ok) return;
+        const list = (Array.isArray(j?.workspaces) ? j.workspaces : []).filter(
+          (w: unknown): w is Workspace => w === "security" || w === "observability",
+        );
+        if (list.length === 0) return;
+        setAllowedWorkspaces(list);
+        setWorkspace((cur) => (list.includes(cur) ? cur : list[0]));
+      })
+      .catch(() => undefined);
+  }, [storageReady, accessToken, meVersion]);
+
+  function openSessions() {
+    setSessionsOpen(true);
+    refreshSessions();
+  }
+
+  // Sessions are created lazily on the first question, titled after it.
+  async function ensureSession(title: string, ws: Workspace): Promise<string | null> {
+    if (sessionId) return sessionId;
+    try {
+      const j = await sessionsApi("/api/sessions", { method: "POST", body: JSON.stringify({ workspace: ws, title }) });
+      const id = typeof j?.session?.id === "string" ? j.session.id : null;
+      setSessionId(id);
+      return id;
+    } catch {
+      return null;
+    }
+  }
+
+  function newSession() {
+    if (loading) return;
+    setSessionId(null);
+    setMessages([welcomeMessage()]);
+    setPanels([]);
+    setPanelPlans({});
+    setLayout([]);
+    savedLayoutJson.current = "";
+    setSessionsOpen(false);
+  }
+
+  async function openSession(id: string) {
+    if (loading) return;
+    try {
+      const j = await sessionsApi(`/api/sessions/${encodeURIComponent(id)}`);
+      const turns: SessionTurn[] = Array.isArray(j?.session?.turns) ? j.session.turns : [];
+      const nextMessages: ChatMsg[] = [welcomeMessage()];
+      const nextPanels: Panel[] = [];
+      const nextPlans: Record<string, unknown> = {};
+      for (const t of turns) {
+        nextMessages.push({ id: uid("u"), role: "user", text: t.rerun ? rerunLabel(t.user, detectLang(t.user)) : t.user });
+        const text = t.cancelled ? withStoppedNote(t.markdown, detectLang(t.user)) : t.markdown;
+        nextMessages.push({
+          id: uid("a"),
+          role: "assistant",
+          text,
+          plan: t.plan ?? undefined,
+          planInfo: t.plan_info,
+          question: t.user,
+        });
+        const failed: Panel[] = (Array.isArray(t.panel_errors) ? t.panel_errors : []).map((e) => ({ ...e, kind: "error" }));
+        for (const p of [...(Array.isArray(t.panels) ? t.panels : []), ...failed]) {
+          nextPanels.push(p);
+          nextPlans[p.panel_id] = t.plan;
+        }
+      }
+      const savedLayout: LayoutItem[] = Array.isArray(j?.session?.layout) ? j.session.layout : [];
+      const lastDataset = turns.map((t) => planDataset(t.plan)).filter(Boolean).pop();
+      if (lastDataset && datasets.some((d) => d.id === lastDataset)) setDataset(lastDataset);
+      if (j?.session?.workspace === "security" || j?.session?.workspace === "observability") setWorkspace(j.session.workspace);
+      setSessionId(id);
+      setMessages(nextMessages);
+      setPanels(nextPanels);
+      setPanelPlans(nextPlans);
+      setLayout(withPanelLayout(nextPanels, savedLayout));
+      savedLayoutJson.current = JSON.stringify(savedLayout);
+      setSessionsOpen(false);
+    } catch (e: unknown) {
+      setSessionsError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function renameSession(id: string, title: string) {
+    try {
+      await sessionsApi(`/api/sessions/${encodeURIComponent(id)}`, { method: "PATCH", body: JSON.stringify({ title }) });
+      await refreshSessions();
+    } catch (e: unknown) {
+      setSessionsError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function deleteSession(id: string) {
+    try {
+      await sessionsApi(`/api/sessions/${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (id === sessionId) setSessionId(null);
+      await refreshSessions();
+    } catch (e: unknown) {
+      setSessionsError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function changeWorkspace(ws: Workspace) {
+    setWorkspace(ws);
+    // Sessions belong to one workspace; the next question starts a new one.
+    setSessionId(null);
+  }
+
   async function send() {
     const text = input.trim();
     if (!text || loading) return;
+    setInput("");
+    await runAnalysis(text, workspace, { review: reviewMode });
+  }
 
-    const userMsg: ChatMsg = { id: uid("u"), role: "user", text };
-    const assistantId = uid("a");
-    const assistantStub: ChatMsg = { id: assistantId, role: "assistant", text: "" };
+  // Review mode: run the edited plan in place of the review form, recorded as a normal turn.
+  async function confirmPlan(m: ChatMsg, plan: PlanDraft) {
+    if (loading) return;
+    await runAnalysis(m.question ?? "", planWorkspace(plan), { runPlan: plan, reviewOf: m.id });
+  }
 
-    setMessages((prev) => [...prev, userMsg, assistantStub]);
-    setInput("");
+  function discardPlan(id: string) {
+    const text = lang === "zh" ? "_\u8ba1\u5212\u5df2\u653e\u5f03\u3002_" : "_Plan discarded._";
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, text, plan: undefined, pendingPlan: undefined } : m)));
+  }
+
+  async function drilldown(p: Extract<Panel, { kind: "bar" | "pie" }>, value: string) {
+    if (!value || loading) return;
+    const text = drilldownLabel(p.drilldown, value, lang);
+    await runAnalysis(text, "security", { drilldown: { group_by: p.drilldown.group_by, value, plan: panelPlans[p.panel_id] ?? {} } });
+  }
+
+  // Re-runs a whole turn: same plan, no planner, panels and explanation streamed again.
+  async function rerunTurn(m: ChatMsg) {
+    if (!m.plan || loading) return;
+    await runAnalysis(m.question ?? "", planWorkspace(m.plan), { runPlan: m.plan });
+  }
+
+  async function runAnalysis(
+    text: string,
+    targetWorkspace: "security" | "observability",
+    // runPlan skips the planner (/api/run): a re-run, or with reviewOf the reviewed plan of that message.
+    opts: {
+      drilldown?: { group_by: string; value: string; plan: unknown };
+      review?: boolean;
+      runPlan?: unknown;
+      reviewOf?: string;
+    } = {},
+  ) {
+    const assistantId = opts.reviewOf ?? uid("a");
+    if (opts.reviewOf) {
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, text: "" } : m)));
+    } else {
+      const userMsg: ChatMsg = { id: uid("u"), role: "user", text: opts.runPlan ? rerunLabel(text, lang) : text };
+      const assistantStub: ChatMsg = { id: assistantId, role: "assistant", text: "", question: text };
+      setMessages((prev) => [...prev, userMsg, assistantStub]);
+    }
     setLoading(true);
-    setStage("planning");
+    setStage(opts.runPlan ? (targetWorkspace === "observability" ? "querying_mcp" : "querying_splunk") : "planning");
 
-    const history = messages.map((m) => ({ role: m.role, text: m.text }));
+    const abort = new AbortController();
+    runAbort.current = abort;
 
-    try {
-      const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (accessToken) headers["Authorization"] = `Bearer ${accessToken}`;
+    const history = messages.map((m) => (m.plan ? { role: m.role, text: m.text, plan: m.plan } : { role: m.role, text: m.text }));
 
-      const resp = await fetch("/api/chat", {
+    try {
+      const sid = await ensureSession(text, targetWorkspace);
+
+      const body = opts.runPlan
+        ? { plan: opts.runPlan, message: text, ...(opts.reviewOf ? { reviewed: true } : {}), ...(sid ? { session_id: sid } : {}) }
+        : {
+            message: text,
+            history,
+            stream: true,
+            workspace: targetWorkspace,
+            ...(targetWorkspace === "security" && dataset ? { dataset } : {}),
+            ...(opts.drilldown ? { drilldown: opts.drilldown } : {}),
+            ...(opts.review ? { review: true } : {}),
+            ...(timeRange && !opts.drilldown ? { time_range: timeRange } : {}),
+            ...(sid ? { session_id: sid } : {}),
+          };
+      const resp = await fetch(opts.runPlan ? "/api/run" : "/api/chat", {
         method: "POST",
-        headers,
-        body: JSON.stringify({ message: text, history, stream: true, workspace }),
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+        signal: abort.signal,
       });
 
       if (resp.status === 401) {
@@ -825,6 +1811,7 @@ export default function Page() {
       const reader = resp.body.getReader();
       const decoder = new TextDecoder("utf-8");
       let buf = "";
+      let currentPlan: unknown = null;
 
       while (true) {
         const { done, value } = await reader.read();
@@ -837,11 +1824,34 @@ export default function Page() {
 
         for (const ev of parsed.events) {
           if (ev.event === "status") {
-            const dataObj = ev.data && typeof ev.data === "object" ? (ev.data as { stage?: unknown }) : {};
+            const dataObj = ev.data && typeof ev.data === "object" ? (ev.data as { stage?: unknown; position?: unknown }) : {};
             const nextStage = String(dataObj.stage || "planning");
+            if (nextStage === "queued") setQueuePosition(Number(dataObj.position) || 0);
             setStage(nextStage);
+          } else if (ev.event === "plan_info") {
+            const planInfo = ev.data as PlanInfo;
+            setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, planInfo } : m)));
+          } else if (ev.event === "plan") {
+            const plan = ev.data;
+            currentPlan = plan;
+            setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, plan, pendingPlan: undefined } : m)));
           } else if (ev.event === "panel") {
-            setPanels((prev) => [...prev, ev.data as Panel]);
+            const panel = ev.data as Panel;
+            const plan = currentPlan;
+            setPanels((prev) => [...prev, panel]);
+            setLayout((prev) => [...prev, placePanel(panel, prev)]);
+            setPanelPlans((prev) => ({ ...prev, [panel.panel_id]: plan }));
+          } else if (ev.event === "panel_error") {
+            const panel: Panel = { ...(ev.data as Omit<Extract<Panel, { kind: "error" }>, "kind">), kind: "error" };
+            const plan = currentPlan;
+            setPanels((prev) => [...prev, panel]);
+            setLayout((prev) => [...prev, placePanel(panel, prev)]);
+            setPanelPlans((prev) => ({ ...prev, [panel.panel_id]: plan }));
+          } else if (ev.event === "done" && (ev.data as { review?: unknown } | null)?.review) {
+            const plan = currentPlan;
+            const text =
+              lang === "zh" ? "\u8bf7\u68c0\u67e5\u5e76\u8c03\u6574\u4e0b\u9762\u7684\u8ba1\u5212\uff0c\u7136\u540e\u8fd0\u884c\u3002" : "Review and adjust the plan below, then run it.";
+            setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, text, pendingPlan: plan } : m)));
           } else if (ev.event === "delta") {
             const dataObj = ev.data && typeof ev.data === "object" ? (ev.data as { text?: unknown }) : {};
             const d = String(dataObj.text ?? "");
@@ -857,6 +1867,10 @@ export default function Page() {
         setTimeout(() => bottomRef.current?.scrollIntoView({ behavior: "smooth" }), 10);
       }
     } catch (e: unknown) {
+      if (abort.signal.aborted) {
+        setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, text: withStoppedNote(m.text, lang) } : m)));
+        return;
+      }
       const msg = e instanceof Error ? e.message : String(e);
 
       const errZh = [
@@ -879,17 +1893,134 @@ export default function Page() {
         prev.map((m) => (m.role === "assistant" && m.text === "" ? { ...m, text: lang === "zh" ? errZh : errEn } : m)),
       );
     } finally {
+      if (runAbort.current === abort) runAbort.current = null;
       setLoading(false);
       setTimeout(() => bottomRef.current?.scrollIntoView({ behavior: "smooth" }), 50);
     }
   }
 
+  // Aborting the fetch disconnects the SSE stream, which cancels planning/querying/explaining server-side.
+  function stopAnalysis() {
+    runAbort.current?.abort();
+  }
+
+  async function fetchPanel(p: Panel): Promise<Panel> {
+    const resp = await fetch("/api/panel", {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ plan: panelPlans[p.panel_id], index: p.index, panel_id: p.panel_id }),
+    });
+    if (resp.status === 401) setConfigOpen(true);
+    const j = await resp.json().catch(() => null);
+    if (!resp.ok || !j?.panel) throw new Error(j?.error || `HTTP ${resp.status}`);
+    return j.panel as Panel;
+  }
+
+  // Re-runs one panel's query against its plan (no planner, fresh time window) and swaps the result in
+  // place; a failure turns the panel into an error card that can be retried.
+  async function rerunPanel(p: Panel) {
+    if (p.index === undefined || retrying[p.panel_id]) return;
+    setRetrying((prev) => ({ ...prev, [p.panel_id]: true }));
+    let next: Panel;
+    try {
+      next = await fetchPanel(p);
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      const query = p.kind === "error" ? p.query : "spl" in p ? p.spl : "";
+      next = { panel_id: p.panel_id, title: p.title, kind: "error", query, message, index: p.index };
+    }
+    setPanels((prev) => prev.map((x) => (x.panel_id === p.panel_id ? next : x)));
+    if (next.kind !== p.kind) {
+      const { w, h } = defaultPanelSize(next);
+      setLayout((prev) => prev.map((l) => (l.i === p.panel_id ? { ...l, w, h } : l)));
+    }
+    setRetrying((prev) => {
+      const rest = { ...prev };
+      delete rest[p.panel_id];
+      return rest;
+    });
+  }
+
+  // One live-mode tick: re-query every line panel and merge the new points. A failed refresh keeps the
+  // last data and is tried again on the next tick; the explanation is left as it is.
+  async function refreshLivePanels() {
+    if (liveBusy.current) return;
+    const targets = panels.filter((p): p is Extract<Panel, { kind: "line" }> => p.kind === "line" && p.index !== undefined);
+    if (targets.length === 0) return;
+    liveBusy.current = true;
+    try {
+      const results = await Promise.allSettled(targets.map((p) => fetchPanel(p)));
+      const fresh = new Map<string, Extract<Panel, { kind: "line" }>>();
+      results.forEach((r, i) => {
+        if (r.status === "fulfilled" && r.value.kind === "line") fresh.set(targets[i].panel_id, r.value);
+      });
+      setPanels((prev) =>
+        prev.map((x) => {
+          const next = fresh.get(x.panel_id);
+          return next && x.kind === "line" ? mergeLineData(x, next) : x;
+        }),
+      );
+    } finally {
+      liveBusy.current = false;
+    }
+  }
+
+  useEffect(() => {
+    liveTick.current = refreshLivePanels;
+  });
+
+  useEffect(() => {
+    if (!liveMs) return;
+    const timer = setInterval(() => liveTick.current(), liveMs);
+    return () => clearInterval(timer);
+  }, [liveMs]);
+
   function closePanel(id: string) {
     setPanels((prev) => prev.filter((p) => p.panel_id !== id));
+    setLayout((prev) => prev.filter((l) => l.i !== id));
+    setPanelPlans((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
   }
 
+  // Pinned panels survive "Clear" and stay fixed on the board.
   function clearPanels() {
-    setPanels([]);
+    const pinned = new Set(layout.filter((l) => l.static).map((l) => l.i));
+    setPanels((prev) => prev.filter((p) => pinned.has(p.panel_id)));
+    setLayout((prev) => prev.filter((l) => pinned.has(l.i)));
+    setPanelPlans((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => pinned.has(id))));
+  }
+
+  function togglePin(id: string) {
+    const next = layout.map((l) => (l.i === id ? { ...l, static: !l.static } : l));
+    setLayout(next);
+    persistLayout(next);
+  }
+
+  function persistLayout(next: LayoutItem[]) {
+    if (!sessionId) return;
+    const items = next.map(({ i, x, y, w, h, static: pinned }) => (pinned ? { i, x, y, w, h, static: true } : { i, x, y, w, h }));
+    const json = JSON.stringify(items);
+    if (json === savedLayoutJson.current) return;
+
+    const id = sessionId;
+    if (layoutSaveTimer.current) clearTimeout(layoutSaveTimer.current);
+    layoutSaveTimer.current = setTimeout(() => {
+      savedLayoutJson.current = json;
+      sessionsApi(`/api/sessions/${encodeURIComponent(id)}`, { method: "PATCH", body: `{"layout":${json}}` }).catch(() => {
+        savedLayoutJson.current = "";
+      });
+    }, 800);
+  }
+
+  function onLayoutChange(next: Layout) {
+    // Keep pin state from our copy; the grid reports positions only.
+    const pinned = new Set(layout.filter((l) => l.static).map((l) => l.i));
+    const merged = next.map((l) => ({ ...l, static: pinned.has(l.i) }));
+    setLayout(merged);
+    persistLayout(merged);
   }
 
   function saveToken(t: string) {
@@ -905,6 +2036,12 @@ export default function Page() {
     clearStoredToken();
   }
 
+  async function signOut() {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+    setSsoUser(null);
+    setMeVersion((v) => v + 1);
+  }
+
   const tokenSet = !!accessToken;
 
   return (
@@ -917,6 +2054,22 @@ export default function Page() {
         tokenSet={tokenSet}
         storageMode={tokenMode}
         setStorageMode={setTokenMode}
+        ssoLoginUrl={ssoLoginUrl}
+        ssoUser={ssoUser}
+        onSignOut={signOut}
+      />
+
+      <SessionsDrawer
+        open={sessionsOpen}
+        onClose={() => setSessionsOpen(false)}
+        workspace={workspace}
+        sessions={sessions}
+        activeId={sessionId}
+        error={sessionsError}
+        onNew={newSession}
+        onOpen={openSession}
+        onRename={renameSession}
+        onDelete={deleteSession}
       />
 
       <div className="mx-auto flex h-full max-w-[1496px] flex-col px-4 py-4">
@@ -934,22 +2087,69 @@ export default function Page() {
                 <select
                   id="workspace-select"
                   value={workspace}
-                  onChange={(e) => setWorkspace(e.target.value === "observability" ? "observability" : "security")}
+                  onChange={(e) => changeWorkspace(e.target.value === "observability" ? "observability" : "security")}
                   className="rounded-lg border border-border/70 bg-card/60 px-2 py-1 text-xs text-muted-foreground hover:bg-card/80"
                 >
-                  <option value="security">Security analytics workspace</option>
-                  <option value="observability">Observability analytics workspace</option>
+                  <option value="security" disabled={!allowedWorkspaces.includes("security")}>
+                    Security analytics workspace
+                  </option>
+                  <option value="observability" disabled={!allowedWorkspaces.includes("observability")}>
+                    Observability analytics workspace
+                  </option>
                 </select>
+                {workspace === "security" && datasets.length > 0 && (
+                  <>
+                    <label className="sr-only" htmlFor="dataset-select">
+                      Dataset
+                    </label>
+                    <select
+                      id="dataset-select"
+                      value={dataset}
+                      onChange={(e) => setDataset(e.target.value)}
+                      disabled={loading}
+                      title="Splunk dataset"
+                      className="ml-2 rounded-lg border border-border/70 bg-card/60 px-2 py-1 text-xs text-muted-foreground hover:bg-card/80"
+                    >
+                      {datasets.map((d) => (
+                        <option key={d.id} value={d.id}>
+                          {d.label}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
               </div>
             </div>
           </div>
 
           <div className="flex items-center gap-2">
+            <IconButton onClick={openSessions} title="Open sessions">
+              <History className="h-4 w-4" />
+              <span className="ml-2 hidden sm:inline">Sessions</span>
+            </IconButton>
+
             <IconButton onClick={() => setDark((v) => !v)} title={dark ? "Switch to light" : "Switch to dark"}>
               {dark ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
               <span className="ml-2 hidden sm:inline">{dark ? "Light" : "Dark"}</span>
             </IconButton>
 
+            <select
+              value={liveMs}
+              onChange={(e) => setLiveMs(Number(e.target.value))}
+              title="Live mode: re-query line panels on an interval, without the LLM"
+              aria-label="Live refresh interval"
+              className={cn(
+                "rounded-xl border border-border/70 bg-card/60 px-3 py-2 text-sm shadow-sm transition hover:bg-card/80",
+                liveMs ? "text-foreground" : "text-muted-foreground",
+              )}
+            >
+              {LIVE_INTERVALS.map((o) => (
+                <option key={o.ms} value={o.ms}>
+                  Live: {o.label}
+                </option>
+              ))}
+            </select>
+
             <IconButton onClick={clearPanels} title="Clear panels">
               <Trash2 className="h-4 w-4" />
               <span className="ml-2 hidden sm:inline">Clear</span>
@@ -1017,6 +2217,27 @@ export default function Page() {
                       >
                         <MarkdownBlock text={m.text || "\u00a0"} tone={isUser ? "dark" : "light"} />
                       </div>
+                      {!isUser && !!m.plan && <PlanDetails plan={m.plan} info={m.planInfo} lang={lang} />}
+                      {!isUser && !!m.pendingPlan && !loading && (
+                        <PlanEditor
+                          plan={m.pendingPlan}
+                          dataset={datasets.find((d) => d.id === planDataset(m.pendingPlan))}
+                          onRun={(plan) => confirmPlan(m, plan)}
+                          onDiscard={() => discardPlan(m.id)}
+                        />
+                      )}
+                      {!isUser && !!m.plan && !m.pendingPlan && !loading && (
+                        <div className="mt-1">
+                          <button
+                            onClick={() => rerunTurn(m)}
+                            title="Run this plan again without re-planning"
+                            className="inline-flex items-center gap-1 rounded-lg px-2 py-0.5 text-[11px] text-muted-foreground transition hover:bg-card/60 hover:text-foreground"
+                          >
+                            <RotateCw className="h-3 w-3" />
+                            <span>Re-run</span>
+                          </button>
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -1024,7 +2245,7 @@ export default function Page() {
                 {loading && (
                   <div className="mb-3 text-left">
                     <div className="inline-block rounded-2xl bg-card/60 px-3 py-2 shadow-sm border border-border/60">
-                      <Spinner label={stageLabel(stage, lang)} />
+                      <Spinner label={stageLabel(stage, lang, queuePosition)} />
                     </div>
                   </div>
                 )}
@@ -1045,18 +2266,31 @@ export default function Page() {
                     placeholder="Ask about alerts, network activity, nodes, tags..."
                     className="w-full rounded-xl border border-border/70 bg-background/40 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-ring/50"
                   />
-                  <button
-                    onClick={send}
-                    disabled={loading}
-                    className={cn(
-                      "rounded-xl px-4 py-2 text-sm font-semibold shadow-sm transition",
-                      loading
-                        ? "bg-muted text-muted-foreground cursor-not-allowed"
-                        : "bg-primary text-primary-foreground hover:opacity-90",
-                    )}
-                  >
-                    Send
-                  </button>
+                  {loading ? (
+                    <button
+                      onClick={stopAnalysis}
+                      title="Stop the running analysis"
+                      className="inline-flex items-center gap-2 rounded-xl border border-border/70 bg-card/60 px-4 py-2 text-sm font-semibold text-foreground shadow-sm transition hover:bg-card/80"
+                    >
+                      <Square className="h-3.5 w-3.5 fill-current" />
+                      Stop
+                    </button>
+                  ) : (
+                    <button
+                      onClick={send}
+                      className="rounded-xl bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground shadow-sm transition hover:opacity-90"
+                    >
+                      Send
+                    </button>
+                  )}
+                </div>
+
+                <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-[11px] text-muted-foreground">
+                  <TimeRangePicker value={timeRange} onChange={setTimeRange} />
+                  <label className="inline-flex items-center gap-1.5" title="Stop after planning so the plan can be edited before it runs">
+                    <input type="checkbox" checked={reviewMode} onChange={(e) => setReviewMode(e.target.checked)} />
+                    <span>Review plan before running</span>
+                  </label>
                 </div>
 
                 <div className="mt-2 flex items-center justify-between text-[11px] text-muted-foreground">
@@ -1077,17 +2311,42 @@ export default function Page() {
           <div className="col-span-12 lg:col-span-8 flex min-h-0">
             <div className="flex h-full min-h-0 flex-1 flex-col rounded-2xl border border-border/70 bg-card/70 p-4 shadow-xl backdrop-blur">
               <div className="flex-1 min-h-0 overflow-auto">
-                <div className="grid grid-cols-1 gap-4">
-                  {panels.map((p) => (
-                    <PanelShell key={p.panel_id} title={`${p.title} · ${p.kind}`} onClose={() => closePanel(p.panel_id)}>
-                      {p.kind === "single" && <SinglePanel p={p} />}
-                      {p.kind === "bar" && <BarPanel p={p} />}
-                      {p.kind === "pie" && <PiePanel p={p} />}
-                      {p.kind === "line" && <LinePanel p={p} />}
-                      {p.kind === "network" && <NetworkPanel p={p} />}
-                      {p.kind === "table" && <TablePanel p={p} />}
-                    </PanelShell>
-                  ))}
+                <div ref={canvasRef}>
+                  {canvasMounted && panels.length > 0 && (
+                    <ReactGridLayout
+                      layout={layout}
+                      width={canvasWidth}
+                      gridConfig={{ cols: CANVAS_COLS, rowHeight: 40, margin: [16, 16], containerPadding: [0, 0] }}
+                      dragConfig={{ handle: ".panel-drag-handle", cancel: "button" }}
+                      onLayoutChange={onLayoutChange}
+                    >
+                      {panels.map((p) => {
+                        const pinned = !!layout.find((l) => l.i === p.panel_id)?.static;
+                        return (
+                          <div key={p.panel_id}>
+                            <PanelShell
+                              title={`${p.title} · ${p.kind}`}
+                              pinned={pinned}
+                              onTogglePin={() => togglePin(p.panel_id)}
+                              onClose={() => closePanel(p.panel_id)}
+                              onRerun={p.index !== undefined && p.kind !== "error" ? () => rerunPanel(p) : undefined}
+                              rerunning={!!retrying[p.panel_id]}
+                            >
+                              {p.kind === "single" && <SinglePanel p={p} />}
+                              {p.kind === "bar" && <BarPanel p={p} onDrilldown={(v) => drilldown(p, v)} />}
+                              {p.kind === "pie" && <PiePanel p={p} onDrilldown={(v) => drilldown(p, v)} />}
+                              {p.kind === "line" && <LinePanel p={p} />}
+                              {p.kind === "network" && <NetworkPanel p={p} />}
+                              {p.kind === "table" && <TablePanel p={p} />}
+                              {p.kind === "error" && (
+                                <ErrorPanel p={p} retrying={!!retrying[p.panel_id]} onRetry={() => rerunPanel(p)} />
+                              )}
+                            </PanelShell>
+                          </div>
+                        );
+                      })}
+                    </ReactGridLayout>
+                  )}
                   {panels.length === 0 && (
                     <div className="rounded-2xl border border-dashed border-border/70 bg-card/50 p-10 text-muted-foreground shadow-sm backdrop-blur">
                       No panels yet. Ask a question to generate charts and tables.
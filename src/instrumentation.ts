@@ -0,0 +1,33 @@
+// Startup self-checks: the OIDC settings and the Splunk credentials key, then how each configured
+// backend is trusted and whether its certificate verifies. The TLS check runs in the background so a
+// slow backend does not delay startup.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { configuredBackends } = await import("@/lib/analysis");
+  const { oidcConfig } = await import("@/lib/oidc");
+  const { splunkCredentialsEnabled } = await import("@/lib/splunk-credentials");
+  const { checkTls, describeTls } = await import("@/lib/tls-config");
+
+  try {
+    oidcConfig();
+  } catch (e: unknown) {
+    console.error(`[oidc] SSO is misconfigured and disabled: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  try {
+    splunkCredentialsEnabled();
+  } catch (e: unknown) {
+    console.error(`[splunk] Security queries will be refused: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  void (async () => {
+    try {
+      for (const s of await checkTls(configuredBackends())) {
+        if (s.ok && s.mode !== "insecure") console.info(`[tls] ${describeTls(s)}`);
+        else console.warn(`[tls] ${describeTls(s)}`);
+      }
+    } catch (e: unknown) {
+      console.error(`[tls] Self-check failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  })();
+}
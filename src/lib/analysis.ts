@@ -0,0 +1,2135 @@
+import { z } from "zod";
+import { auditMcpCall, auditPlannerOutput } from "@/lib/audit-log";
+import { defaultDataset, fieldLabel, findDataset, splitKey, type Dataset, type DatasetField } from "@/lib/dataset-catalog";
+import { enforceQueryPolicy } from "@/lib/query-policy";
+import { acquireLlmSlot } from "@/lib/rate-limit";
+import { scopedSplunkToken, splunkCredentialsEnabled } from "@/lib/splunk-credentials";
+import {
+  findSourceCombo,
+  getSourceRegistry,
+  type McpSource,
+  type ObservabilityViz,
+  type SourceIntent,
+  type SourceMatch,
+  type SourceRegistry,
+} from "@/lib/source-registry";
+import { dispatcherFor } from "@/lib/tls-config";
+import {
+  checkTimeRange,
+  fitSpan,
+  isTimeModifier,
+  localIsoString,
+  parseSpan,
+  rangeSeconds,
+  resolveTime,
+  sourceTime,
+  splunkTime,
+} from "@/lib/time-range";
+
+// Planning, querying and explaining for both workspaces, shared by the chat and panel routes.
+
+export type HistoryTurn = { role: "user" | "assistant"; text: string; plan?: unknown };
+
+type VizKind = "none" | "single" | "table" | "bar" | "pie" | "line";
+type Template = "count" | "table" | "count_by" | "trend";
+
+// group_by and split name dataset fields by their `group_by` key (config/splunk-datasets.json).
+type OutputSpec = {
+  kind: VizKind;
+  title: string;
+  template: Template;
+  group_by?: string;
+  limit?: number;
+  span?: string;
+  split?: string;
+};
+
+// Keyed by the dataset's filter keys, e.g. severity_exact, node_like, has_network_activity.
+type Filters = Record<string, string | boolean | string[]>;
+
+type ChartDatum = Record<string, string | number>;
+type TableRow = Record<string, string | number | null | undefined>;
+type McpRow = Record<string, unknown>;
+
+export type Plan = {
+  language: "en" | "zh";
+  dataset: string;
+  earliest_time: string;
+  latest_time: string;
+  filters: Filters;
+  outputs: OutputSpec[];
+};
+
+// mcp/tool/target/metric are registry keys (config/observability-sources.json).
+type ObservabilityRequest = {
+  mcp: string;
+  tool: string;
+  target: string;
+  metric: string;
+  viz: ObservabilityViz;
+  title: string;
+};
+
+export type ObservabilityPlan = {
+  language: "en" | "zh";
+  earliest_time: string;
+  latest_time: string;
+  requests: ObservabilityRequest[];
+};
+
+type NetworkNode = { id: string; label: string; status: "ok" | "alert" };
+type NetworkEdge = { from: string; to: string; label?: string };
+type NetworkAnnotation = { nodeId: string; label: string };
+type NetworkRow = {
+  source: string;
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+  annotations?: NetworkAnnotation[];
+  stats?: { policy_drop?: number; anomalies?: number };
+};
+
+// `index` is the panel's position in plan.outputs / plan.requests, used to re-run it alone; the
+// merged topology panel spans several requests and has none.
+export type Panel = (
+  | { panel_id: string; title: string; kind: "single"; spl: string; label: string; value: number }
+  | { panel_id: string; title: string; kind: "table"; spl: string; columns: string[]; rows: TableRow[] }
+  | {
+      panel_id: string;
+      title: string;
+      kind: "bar";
+      spl: string;
+      xKey: string;
+      yKey: string;
+      data: ChartDatum[];
+      drilldown: { group_by: string; label: string };
+    }
+  | {
+      panel_id: string;
+      title: string;
+      kind: "pie";
+      spl: string;
+      xKey: string;
+      yKey: string;
+      data: ChartDatum[];
+      drilldown: { group_by: string; label: string };
+    }
+  // Line rows label their bucket in `time` (e.g. "HH:MM") and, where known, its epoch ms in `ts`.
+  | { panel_id: string; title: string; kind: "line"; spl: string; xKey: string; seriesKeys: string[]; data: ChartDatum[] }
+  | { panel_id: string; title: string; kind: "network"; rows: NetworkRow[] }
+) & { index?: number };
+
+// A panel whose query failed; `index` points into plan.outputs (Security) or plan.requests (Observability).
+export type PanelError = { panel_id: string; title: string; query: string; message: string; index: number };
+
+function detectLanguage(msg: string): "en" | "zh" {
+  return /[\u4e00-\u9fff]/.test(msg) ? "zh" : "en";
+}
+
+function clampInt(n: unknown, lo: number, hi: number, dflt: number): number {
+  const x = Number(n);
+  if (!Number.isFinite(x)) return dflt;
+  return Math.min(hi, Math.max(lo, Math.floor(x)));
+}
+
+function stripQuotes(v: string): string {
+  const s = String(v ?? "").trim();
+  if ((s.startsWith('"') && s.endsWith('"')) || (s.startsWith("'") && s.endsWith("'"))) return s.slice(1, -1);
+  return s;
+}
+
+function joinUrl(base: string, path: string): string {
+  const b = String(base ?? "").replace(/\/+$/, "");
+  const p = String(path ?? "").replace(/^\/+/, "");
+  return `${b}/${p}`;
+}
+
+function envBool(name: string, dflt: boolean): boolean {
+  const v = String(process.env[name] ?? "").trim().toLowerCase();
+  if (!v) return dflt;
+  return v === "1" || v === "true" || v === "yes" || v === "on";
+}
+
+// With per-user credentials on, the token is the caller's own (set by the route); otherwise the shared one.
+function resolveSplunkMcpConfig() {
+  const endpoint = process.env.SPLUNK_MCP_ENDPOINT || process.env.MCP_ENDPOINT || "";
+  if (!endpoint) throw new Error("Missing Splunk MCP endpoint (SPLUNK_MCP_ENDPOINT or MCP_ENDPOINT)");
+
+  if (splunkCredentialsEnabled()) {
+    const token = scopedSplunkToken();
+    if (!token) throw new Error("No Splunk credentials are mapped to this user");
+    return { endpoint, token };
+  }
+
+  const tokenRaw = process.env.SPLUNK_MCP_TOKEN || process.env.MCP_TOKEN || "";
+  const token = stripQuotes(tokenRaw);
+  if (!token) throw new Error("Missing Splunk MCP token (SPLUNK_MCP_TOKEN or MCP_TOKEN)");
+  return { endpoint, token };
+}
+
+function resolveSourceMcpConfig(source: McpSource) {
+  const endpoint = process.env[source.endpoint_env] || "";
+  const token = stripQuotes(source.token_env ? process.env[source.token_env] || "" : "");
+
+  if (!endpoint) throw new Error(`Missing ${source.label} MCP endpoint (${source.endpoint_env})`);
+  return { endpoint, token };
+}
+
+function observabilityMocksEnabled(): boolean {
+  return envBool("OBSERVABILITY_DEMO_MOCKS", false);
+}
+
+// Every backend URL this server is configured to call, for the TLS self-check.
+export function configuredBackends(): Array<{ name: string; url: string }> {
+  const out: Array<{ name: string; url: string }> = [];
+  const splunk = process.env.SPLUNK_MCP_ENDPOINT || process.env.MCP_ENDPOINT || "";
+  if (splunk) out.push({ name: "Splunk MCP", url: splunk });
+  if (process.env.QWEN_ENDPOINT || process.env.QWEN_CHAT_COMPLETIONS || process.env.QWEN_BASE_URL || process.env.QWEN_URL) {
+    out.push({ name: "Qwen", url: resolveQwenChatCompletionsUrl() });
+  }
+  if (!observabilityMocksEnabled()) {
+    for (const source of getSourceRegistry().sources) {
+      const url = process.env[source.endpoint_env];
+      if (url) out.push({ name: `${source.label} MCP`, url });
+    }
+  }
+  const issuer = String(process.env.OIDC_ISSUER || "").trim();
+  if (issuer) out.push({ name: "OIDC issuer", url: issuer });
+  return out;
+}
+
+function resolveQwenChatCompletionsUrl(): string {
+  const direct = process.env.QWEN_ENDPOINT || process.env.QWEN_CHAT_COMPLETIONS || "";
+  if (direct) return direct;
+
+  const base = process.env.QWEN_BASE_URL || process.env.QWEN_URL || "";
+  if (!base) throw new Error("Missing Qwen endpoint (QWEN_ENDPOINT or QWEN_BASE_URL)");
+
+  const lower = base.toLowerCase();
+  if (lower.includes("/chat/completions")) return base;
+  if (lower.endsWith("/v1") || lower.endsWith("/v1/")) return joinUrl(base, "chat/completions");
+  if (!lower.includes("/v1")) return joinUrl(joinUrl(base, "v1"), "chat/completions");
+  return joinUrl(base, "chat/completions");
+}
+
+function tryParseJson(s: string): unknown | null {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return null;
+  }
+}
+
+function isMcpRow(value: unknown): value is McpRow {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function extractResultsFromMcpResult(r: unknown): McpRow[] {
+  if (!r) return [];
+
+  if (typeof r === "object" && r !== null) {
+    const sc = (r as { structuredContent?: unknown }).structuredContent;
+    if (sc && typeof sc === "object") {
+      const scObj = sc as { results?: unknown; data?: unknown };
+      if (Array.isArray(scObj.results)) return scObj.results.filter(isMcpRow);
+      if (Array.isArray(scObj.data)) return scObj.data.filter(isMcpRow);
+    }
+  }
+
+  if (typeof r === "object" && r !== null) {
+    const results = (r as { results?: unknown }).results;
+    if (Array.isArray(results)) return results.filter(isMcpRow);
+  }
+
+  if (typeof r === "object" && r !== null) {
+    const fields = (r as { fields?: unknown }).fields;
+    const rows = (r as { rows?: unknown }).rows;
+    if (Array.isArray(rows) && Array.isArray(fields)) {
+      return rows.map((row) => {
+        const obj: McpRow = {};
+        fields.forEach((f, i) => {
+          if (typeof f === "string") obj[f] = Array.isArray(row) ? row[i] : undefined;
+        });
+        return obj;
+      });
+    }
+  }
+
+  if (typeof r === "object" && r !== null) {
+    const data = (r as { data?: unknown }).data;
+    if (Array.isArray(data)) return data.filter(isMcpRow);
+  }
+
+  if (typeof r === "object" && r !== null) {
+    const content = (r as { content?: unknown }).content;
+    if (Array.isArray(content)) {
+      for (const c of content) {
+        if (c && typeof c === "object") {
+          const cObj = c as { type?: unknown; json?: unknown; text?: unknown };
+          if (cObj.type === "json" && cObj.json && typeof cObj.json === "object") {
+            const jsonObj = cObj.json as { results?: unknown };
+            if (Array.isArray(jsonObj.results)) return jsonObj.results.filter(isMcpRow);
+          }
+          if (cObj.type === "text" && typeof cObj.text === "string") {
+            const obj = tryParseJson(cObj.text);
+            if (!obj) continue;
+            if (Array.isArray(obj)) return obj.filter(isMcpRow);
+            if (typeof obj === "object" && obj !== null) {
+              const objResults = (obj as { results?: unknown }).results;
+              if (Array.isArray(objResults)) return objResults.filter(isMcpRow);
+              const sc2 = (obj as { structuredContent?: unknown }).structuredContent;
+              if (sc2 && typeof sc2 === "object") {
+                const sc2Obj = sc2 as { results?: unknown };
+                if (Array.isArray(sc2Obj.results)) return sc2Obj.results.filter(isMcpRow);
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return [];
+}
+
+async function callMcpTool(
+  label: string,
+  config: { endpoint: string; token: string },
+  name: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<unknown> {
+  const { endpoint, token } = config;
+  const dispatcher = dispatcherFor(endpoint);
+
+  const payload = {
+    jsonrpc: "2.0",
+    id: 200,
+    method: "tools/call",
+    params: { name, arguments: args },
+  };
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+
+  const resp = await fetch(endpoint, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(payload),
+    signal,
+    // @ts-expect-error undici dispatcher is not yet in the standard fetch typings.
+    dispatcher,
+  });
+
+  const text = await resp.text();
+  const json = tryParseJson(text);
+
+  if (!resp.ok) {
+    const bodyPreview = text ? text.slice(0, 800) : "";
+    throw new Error(`${label} MCP HTTP ${resp.status}: ${bodyPreview}`);
+  }
+  if (!json || typeof json !== "object") return null;
+
+  const rpcError = (json as { error?: unknown }).error;
+  if (rpcError && typeof rpcError === "object") {
+    const msg = (rpcError as { message?: unknown }).message;
+    throw new Error(`${label} MCP error: ${typeof msg === "string" ? msg : JSON.stringify(rpcError).slice(0, 800)}`);
+  }
+  const result = (json as { result?: unknown }).result;
+  if (result && typeof result === "object" && (result as { isError?: unknown }).isError === true) {
+    throw new Error(`${label} MCP tool ${name} failed: ${JSON.stringify(result).slice(0, 800)}`);
+  }
+  return result ?? null;
+}
+
+async function callSplunkMcp(
+  query: string,
+  earliest_time: string,
+  latest_time: string,
+  row_limit: number,
+  signal?: AbortSignal,
+) {
+  const config = resolveSplunkMcpConfig();
+  const tool = "run_splunk_query";
+  return auditMcpCall(
+    { endpoint: config.endpoint, tool, query },
+    async () => {
+      await enforceQueryPolicy({ query, earliest_time, latest_time, row_limit });
+      const args = { query, earliest_time: splunkTime(earliest_time), latest_time: splunkTime(latest_time), row_limit };
+      const result = await callMcpTool("Splunk", config, tool, args, signal);
+      if (!result) return [];
+      return extractResultsFromMcpResult(result);
+    },
+    (rows) => rows.length,
+  );
+}
+
+// Tool results arrive either as structuredContent or as JSON inside a text/json content item.
+function unwrapMcpPayload(r: unknown): unknown {
+  if (!r || typeof r !== "object") return null;
+
+  const sc = (r as { structuredContent?: unknown }).structuredContent;
+  if (sc && typeof sc === "object") return sc;
+
+  const content = (r as { content?: unknown }).content;
+  if (Array.isArray(content)) {
+    for (const c of content) {
+      if (!c || typeof c !== "object") continue;
+      const cObj = c as { type?: unknown; json?: unknown; text?: unknown };
+      if (cObj.type === "json" && cObj.json && typeof cObj.json === "object") return cObj.json;
+      if (cObj.type === "text" && typeof cObj.text === "string") {
+        const obj = tryParseJson(cObj.text);
+        if (obj && typeof obj === "object") return obj;
+      }
+    }
+    return null;
+  }
+
+  return r;
+}
+
+type GrafanaFrameField = { name: string; type?: string; labels?: Record<string, string>; values: unknown[] };
+
+function extractGrafanaFrames(payload: unknown): unknown[] {
+  if (!payload || typeof payload !== "object") return [];
+  if (Array.isArray(payload)) return payload;
+
+  const frames = (payload as { frames?: unknown }).frames;
+  if (Array.isArray(frames)) return frames;
+
+  // /api/ds/query shape: { results: { A: { frames: [...] } } }
+  const results = (payload as { results?: unknown }).results;
+  if (results && typeof results === "object" && !Array.isArray(results)) {
+    const out: unknown[] = [];
+    for (const r of Object.values(results as Record<string, unknown>)) {
+      const rf = r && typeof r === "object" ? (r as { frames?: unknown }).frames : undefined;
+      if (Array.isArray(rf)) out.push(...rf);
+    }
+    return out;
+  }
+
+  const data = (payload as { data?: unknown }).data;
+  if (data && typeof data === "object") return extractGrafanaFrames(data);
+  return [];
+}
+
+function grafanaFrameFields(frame: unknown): GrafanaFrameField[] {
+  if (!frame || typeof frame !== "object") return [];
+  const schema = (frame as { schema?: unknown }).schema;
+  const data = (frame as { data?: unknown }).data;
+  const schemaFields = schema && typeof schema === "object" ? (schema as { fields?: unknown }).fields : undefined;
+  const values = data && typeof data === "object" ? (data as { values?: unknown }).values : undefined;
+
+  if (Array.isArray(schemaFields) && Array.isArray(values)) {
+    return schemaFields.map((f, i) => {
+      const fObj = (f ?? {}) as { name?: unknown; type?: unknown; labels?: unknown };
+      return {
+        name: typeof fObj.name === "string" ? fObj.name : `field_${i}`,
+        type: typeof fObj.type === "string" ? fObj.type : undefined,
+        labels: fObj.labels && typeof fObj.labels === "object" ? (fObj.labels as Record<string, string>) : undefined,
+        values: Array.isArray(values[i]) ? (values[i] as unknown[]) : [],
+      };
+    });
+  }
+
+  // Older/simplified frame encoding: { fields: [{ name, type, values }] }
+  const fields = (frame as { fields?: unknown }).fields;
+  if (Array.isArray(fields)) {
+    return fields.map((f, i) => {
+      const fObj = (f ?? {}) as { name?: unknown; type?: unknown; labels?: unknown; values?: unknown };
+      return {
+        name: typeof fObj.name === "string" ? fObj.name : `field_${i}`,
+        type: typeof fObj.type === "string" ? fObj.type : undefined,
+        labels: fObj.labels && typeof fObj.labels === "object" ? (fObj.labels as Record<string, string>) : undefined,
+        values: Array.isArray(fObj.values) ? fObj.values : [],
+      };
+    });
+  }
+  return [];
+}
+
+function toEpochMs(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v < 1e12 ? v * 1000 : v;
+  if (typeof v === "string" && v.trim()) {
+    const n = Number(v);
+    if (Number.isFinite(n)) return n < 1e12 ? n * 1000 : n;
+    const d = Date.parse(v);
+    return Number.isFinite(d) ? d : null;
+  }
+  return null;
+}
+
+function grafanaSeriesName(field: GrafanaFrameField, frame: unknown, metric: string): string {
+  const labels = field.labels ? Object.entries(field.labels) : [];
+  if (labels.length > 0) return labels.map(([k, v]) => `${k}=${v}`).join(",");
+  const frameName = frame && typeof frame === "object" ? (frame as { name?: unknown }).name : undefined;
+  if (typeof frameName === "string" && frameName.trim() && field.name.toLowerCase() === "value") return frameName.trim();
+  if (field.name && field.name.toLowerCase() !== "value") return field.name;
+  return metric;
+}
+
+// Merge every numeric field of every frame into one row per timestamp, keyed by series name.
+function grafanaFramesToSeries(frames: unknown[], metric: string): { data: ChartDatum[]; seriesKeys: string[] } {
+  const byTime = new Map<number, ChartDatum>();
+  const seriesKeys: string[] = [];
+
+  for (const frame of frames) {
+    const fields = grafanaFrameFields(frame);
+    const timeField = fields.find((f) => f.type === "time") ?? fields.find((f) => /^(time|timestamp|ts)$/i.test(f.name));
+    if (!timeField) continue;
+
+    for (const field of fields) {
+      if (field === timeField) continue;
+      if (field.type && field.type !== "number") continue;
+
+      const base = grafanaSeriesName(field, frame, metric);
+      let key = base;
+      for (let n = 2; seriesKeys.includes(key); n += 1) key = `${base} #${n}`;
+      seriesKeys.push(key);
+
+      field.values.forEach((raw, i) => {
+        const ts = toEpochMs(timeField.values[i]);
+        const v = Number(raw);
+        if (ts == null || raw == null || !Number.isFinite(v)) return;
+        const row = byTime.get(ts) ?? { time: formatTimeLabel(new Date(ts)), ts };
+        row[key] = v;
+        byTime.set(ts, row);
+      });
+    }
+  }
+
+  const data = Array.from(byTime.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, row]) => row);
+  return { data, seriesKeys };
+}
+
+// `parse` runs inside the audited call so the audit record gets the row count (line series only).
+function callSourceTool<T>(
+  match: SourceMatch,
+  req: ObservabilityRequest,
+  earliest_time: string,
+  latest_time: string,
+  parse: (result: unknown) => T,
+  rows?: (parsed: T) => number,
+  signal?: AbortSignal,
+): Promise<T> {
+  const config = resolveSourceMcpConfig(match.source);
+  const now = Date.now();
+  const args = {
+    [match.tool.target_arg]: req.target,
+    metric: req.metric,
+    from: sourceTime(earliest_time, now),
+    to: sourceTime(latest_time, now),
+  };
+  return auditMcpCall(
+    { endpoint: config.endpoint, tool: match.tool.name, query: JSON.stringify(args) },
+    async () => parse(await callMcpTool(match.source.label, config, match.tool.name, args, signal)),
+    rows,
+  );
+}
+
+function timeseriesFromResult(result: unknown, metric: string) {
+  const frames = extractGrafanaFrames(unwrapMcpPayload(result));
+  if (frames.length > 0) return grafanaFramesToSeries(frames, metric);
+
+  // Some servers flatten to plain rows: [{ time, value }, ...]
+  const rows = result ? extractResultsFromMcpResult(result) : [];
+  const data = normalizeChartData(rows);
+  const seriesKeys = data.length > 0 ? Object.keys(data[0]).filter((k) => k !== "time") : [];
+  return { data, seriesKeys };
+}
+
+function extractMcpRecords(result: unknown, keys: string[]): McpRow[] {
+  const payload = unwrapMcpPayload(result);
+  if (Array.isArray(payload)) return payload.filter(isMcpRow);
+  if (payload && typeof payload === "object") {
+    for (const k of keys) {
+      const v = (payload as Record<string, unknown>)[k];
+      if (Array.isArray(v)) return v.filter(isMcpRow);
+    }
+  }
+  return result ? extractResultsFromMcpResult(result) : [];
+}
+
+function pickString(row: McpRow, keys: string[]): string {
+  for (const k of keys) {
+    const v = row[k];
+    if (typeof v === "string" && v.trim()) return v.trim();
+    if (typeof v === "number") return String(v);
+  }
+  return "";
+}
+
+function pickNumber(row: McpRow, keys: string[], dflt: number): number {
+  for (const k of keys) {
+    const v = Number(row[k]);
+    if (row[k] != null && Number.isFinite(v)) return v;
+  }
+  return dflt;
+}
+
+function hubbleEndpointId(raw: string): string {
+  if (!raw || raw === "reserved:world" || raw.toLowerCase() === "world") return "world";
+  return raw;
+}
+
+function isDroppedVerdict(verdict: string): boolean {
+  const v = verdict.toUpperCase();
+  return v === "DROPPED" || v === "DENIED" || v === "POLICY_DENIED";
+}
+
+// Aggregate Hubble flow records into one edge per source -> destination pair.
+// A node turns "alert" when any flow touching it was dropped.
+function buildHubbleRow(records: McpRow[], target: string): NetworkRow {
+  const nodeOrder: string[] = [];
+  const addNode = (id: string) => {
+    if (!nodeOrder.includes(id)) nodeOrder.push(id);
+  };
+  const edgeStats = new Map<string, { from: string; to: string; flows: number; drops: number }>();
+  const dropReasons = new Map<string, Map<string, number>>();
+  const alertNodes = new Set<string>();
+
+  for (const r of records) {
+    const from = hubbleEndpointId(pickString(r, ["source", "source_workload", "src", "from"]));
+    const to = hubbleEndpointId(pickString(r, ["destination", "destination_workload", "dst", "to"]) || target);
+    const flows = Math.max(0, pickNumber(r, ["flows", "count", "value"], 1));
+    const verdict = pickString(r, ["verdict", "status"]);
+    const drops = isDroppedVerdict(verdict) ? flows : Math.max(0, pickNumber(r, ["dropped", "drops", "policy_drop"], 0));
+
+    addNode(from);
+    addNode(to);
+
+    const key = `${from}\u0000${to}`;
+    const e = edgeStats.get(key) ?? { from, to, flows: 0, drops: 0 };
+    e.flows += flows;
+    e.drops += drops;
+    edgeStats.set(key, e);
+
+    if (drops > 0) {
+      alertNodes.add(to);
+      const reason = pickString(r, ["drop_reason", "drop_reason_desc", "reason"]);
+      if (reason) {
+        const reasons = dropReasons.get(to) ?? new Map<string, number>();
+        reasons.set(reason, (reasons.get(reason) ?? 0) + drops);
+        dropReasons.set(to, reasons);
+      }
+    }
+  }
+
+  if (!nodeOrder.includes(target)) {
+    nodeOrder.unshift("world");
+    addNode(target);
+  }
+  // Keep the external world on the left so the overlay reads ingress-first.
+  const ordered = nodeOrder.includes("world") ? ["world", ...nodeOrder.filter((id) => id !== "world")] : nodeOrder;
+
+  const nodes: NetworkNode[] = Array.from(new Set(ordered)).map((id) => ({
+    id,
+    label: id === "world" ? "World" : id,
+    status: alertNodes.has(id) ? "alert" : "ok",
+  }));
+
+  let policyDrop = 0;
+  const edges: NetworkEdge[] = [];
+  for (const e of edgeStats.values()) {
+    policyDrop += e.drops;
+    edges.push({ from: e.from, to: e.to, label: e.drops > 0 ? `Policy Drop: ${e.drops}` : `Flows: ${e.flows}` });
+  }
+
+  const annotations: NetworkAnnotation[] = [];
+  for (const [nodeId, reasons] of dropReasons.entries()) {
+    const top = Array.from(reasons.entries()).sort((a, b) => b[1] - a[1])[0];
+    if (top) annotations.push({ nodeId, label: `${top[0]} (${top[1]})` });
+  }
+
+  return { source: "Hubble MCP (Overlay)", nodes, edges, annotations, stats: { policy_drop: policyDrop } };
+}
+
+function isActiveAnomaly(severity: string): boolean {
+  const s = severity.toLowerCase();
+  return s !== "info" && s !== "ok" && s !== "cleared" && s !== "healthy";
+}
+
+// NDI returns anomaly events and, when available, the fabric path they sit on.
+// Without topology, the anomalous nodes are listed on their own.
+function buildNdiRow(payload: unknown, anomalies: McpRow[]): NetworkRow {
+  const obj = payload && typeof payload === "object" && !Array.isArray(payload) ? (payload as Record<string, unknown>) : {};
+  const topoNodes = Array.isArray(obj.nodes) ? obj.nodes.filter(isMcpRow) : [];
+  const topoLinks = Array.isArray(obj.links) ? obj.links.filter(isMcpRow) : Array.isArray(obj.edges) ? obj.edges.filter(isMcpRow) : [];
+
+  const labels = new Map<string, string>();
+  for (const n of topoNodes) {
+    const id = pickString(n, ["id", "name", "nodeName"]);
+    if (id) labels.set(id, pickString(n, ["label", "name", "nodeName"]) || id);
+  }
+
+  const edges: NetworkEdge[] = [];
+  for (const l of topoLinks) {
+    const from = pickString(l, ["from", "source", "src"]);
+    const to = pickString(l, ["to", "target", "destination", "dst"]);
+    if (!from || !to) continue;
+    if (!labels.has(from)) labels.set(from, from);
+    if (!labels.has(to)) labels.set(to, to);
+    const label = pickString(l, ["label", "interface"]);
+    edges.push(label ? { from, to, label } : { from, to });
+  }
+
+  const alertNodes = new Set<string>();
+  const notes = new Map<string, string[]>();
+  let active = 0;
+  for (const a of anomalies) {
+    const nodeId = pickString(a, ["nodeId", "node", "nodeName", "resource", "entity"]);
+    if (!nodeId) continue;
+    const severity = pickString(a, ["severity", "level"]) || "major";
+    if (!isActiveAnomaly(severity)) continue;
+    active += 1;
+    if (!labels.has(nodeId)) labels.set(nodeId, nodeId);
+    alertNodes.add(nodeId);
+    const category = pickString(a, ["category", "type", "title", "description"]) || "anomaly";
+    const list = notes.get(nodeId) ?? [];
+    list.push(`${severity}: ${category}`);
+    notes.set(nodeId, list);
+  }
+
+  const nodes: NetworkNode[] = Array.from(labels.entries()).map(([id, label]) => ({
+    id,
+    label,
+    status: alertNodes.has(id) ? "alert" : "ok",
+  }));
+  const annotations: NetworkAnnotation[] = Array.from(notes.entries()).map(([nodeId, list]) => ({
+    nodeId,
+    label: list.length > 1 ? `${list[0]} (+${list.length - 1})` : list[0],
+  }));
+
+  return { source: "NDI MCP (Underlay)", nodes, edges, annotations, stats: { anomalies: active } };
+}
+
+function networkRowFromResult(match: SourceMatch, result: unknown, target: string): NetworkRow {
+  if (match.tool.parser === "hubble_flows") return buildHubbleRow(extractMcpRecords(result, ["flows", "records"]), target);
+  return buildNdiRow(unwrapMcpPayload(result), extractMcpRecords(result, ["anomalies", "events"]));
+}
+
+function escapeSplString(s: string): string {
+  return String(s ?? "").replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function extractJsonObjectLoose(text: string): unknown | null {
+  const t = String(text ?? "");
+  const first = t.indexOf("{");
+  const last = t.lastIndexOf("}");
+  if (first < 0 || last < 0 || last <= first) return null;
+  const slice = t.slice(first, last + 1);
+  try {
+    return JSON.parse(slice);
+  } catch {
+    return null;
+  }
+}
+
+function mentionTokens(field: DatasetField, userMsg: string): string[] {
+  const src = field.mention?.token_regex;
+  if (!src) return [];
+  const out = new Set<string>();
+  for (const m of String(userMsg ?? "").match(new RegExp(src, "gi")) || []) out.add(field.lowercase ? m.toLowerCase() : m);
+  return Array.from(out);
+}
+
+function mentionsField(field: DatasetField, userMsg: string): boolean {
+  const s = String(userMsg ?? "").toLowerCase();
+  return (field.mention?.keywords ?? []).some((k) => s.includes(k.toLowerCase()));
+}
+
+function filterFields(ds: Dataset): Array<DatasetField & { filter: string }> {
+  return ds.fields.filter((f): f is DatasetField & { filter: string } => !!f.filter);
+}
+
+function groupFields(ds: Dataset): Array<DatasetField & { group_by: string }> {
+  return ds.fields.filter((f): f is DatasetField & { group_by: string } => !!f.group_by);
+}
+
+function splitFields(ds: Dataset): Array<DatasetField & { group_by: string }> {
+  return groupFields(ds).filter((f) => f.split && f.values);
+}
+
+function canonicalValue(field: DatasetField, v: string): string | null {
+  if (!field.values) return v;
+  return field.values.find((x) => x.toLowerCase() === v.toLowerCase()) ?? null;
+}
+
+function normalizeToken(field: DatasetField, v: string): string | null {
+  const t = field.lowercase ? v.trim().toLowerCase() : v.trim();
+  if (!t) return null;
+  if (field.token_pattern && !new RegExp(field.token_pattern).test(t)) return null;
+  return t;
+}
+
+const optionalLike = z.string().trim().optional();
+
+function filterValueSchema(field: DatasetField) {
+  if (field.type === "fuzzy") return optionalLike;
+  if (field.type === "boolean") return z.boolean().optional();
+  if (field.type === "multivalue") {
+    return z
+      .array(
+        z
+          .string()
+          .refine((v) => normalizeToken(field, v) !== null, `${field.filter} values must be tokens like ${field.token_pattern ?? "abc"}`)
+          .transform((v) => normalizeToken(field, v) ?? v),
+      )
+      .optional();
+  }
+  const values = field.values;
+  if (!values) return z.array(z.string().trim().min(1)).optional();
+  return z
+    .array(z.preprocess((v) => (typeof v === "string" ? (canonicalValue(field, v.trim()) ?? v) : v), z.enum(values)))
+    .optional();
+}
+
+function filtersSchema(ds: Dataset) {
+  const fields = filterFields(ds);
+  const shape: Record<string, ReturnType<typeof filterValueSchema>> = {};
+  for (const f of fields) shape[f.filter] = filterValueSchema(f);
+
+  return z.preprocess((raw) => {
+    // Older prompts used aliases such as `severity` for `severity_exact`.
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return raw;
+    const out = { ...(raw as Record<string, unknown>) };
+    for (const f of fields) {
+      for (const alias of f.aliases ?? []) {
+        if (alias in out && !(f.filter in out)) out[f.filter] = out[alias];
+        delete out[alias];
+      }
+    }
+    return out;
+  }, z.strictObject(shape));
+}
+
+const outputTitle = z.string().trim().max(120).optional();
+const outputLimit = z.coerce.number().finite().optional();
+
+function outputSchema(ds: Dataset) {
+  const groups = groupFields(ds).map((f) => f.group_by);
+  const splits = splitFields(ds).map((f) => splitKey(f.group_by));
+  return z.discriminatedUnion("template", [
+    z.object({ template: z.literal("count"), kind: z.string().optional(), title: outputTitle }),
+    z.object({ template: z.literal("table"), kind: z.string().optional(), title: outputTitle, limit: outputLimit }),
+    z.object({
+      template: z.literal("count_by"),
+      kind: z.string().optional(),
+      title: outputTitle,
+      group_by: z.enum(groups).optional(),
+      limit: outputLimit,
+    }),
+    z.object({
+      template: z.literal("trend"),
+      kind: z.string().optional(),
+      title: outputTitle,
+      span: z.string().trim().min(1).optional(),
+      split: z.preprocess((v) => (typeof v === "string" ? v.toLowerCase() : v), z.enum(["none", ...splits])).optional(),
+    }),
+  ]);
+}
+
+const timeModifier = z
+  .string()
+  .trim()
+  .refine(isTimeModifier, "Use a relative time like -15m, -1d@d or now, or an ISO 8601 instant like 2026-01-31T02:00:00Z");
+
+function planSchema(ds: Dataset) {
+  return z.object({
+    earliest_time: timeModifier.optional(),
+    latest_time: timeModifier.optional(),
+    filters: filtersSchema(ds).optional(),
+    outputs: z.array(outputSchema(ds)).optional(),
+  });
+}
+
+type PlanParse<T> = { ok: true; plan: T } | { ok: false; issues: string[] };
+
+function formatZodIssues(err: z.ZodError): string[] {
+  return err.issues.slice(0, 8).map((i) => `${i.path.length > 0 ? i.path.join(".") : "(root)"}: ${i.message}`);
+}
+
+// The template decides the visualization; `kind` from the model is only a hint for count_by.
+function toOutputSpec(o: z.infer<ReturnType<typeof outputSchema>>, ds: Dataset): OutputSpec {
+  const title = o.title || "Result";
+  if (o.template === "count") return { kind: "single", title, template: "count" };
+  if (o.template === "table") return { kind: "table", title, template: "table", limit: clampInt(o.limit, 5, 200, 50) };
+  if (o.template === "count_by") {
+    return {
+      kind: o.kind === "pie" ? "pie" : "bar",
+      title,
+      template: "count_by",
+      group_by: o.group_by ?? groupFields(ds)[0].group_by,
+      limit: clampInt(o.limit, 3, 50, 10),
+    };
+  }
+  return { kind: "line", title, template: "trend", span: o.span, split: o.split ?? "none" };
+}
+
+export function parsePlan(raw: unknown, userMsg: string, ds: Dataset): PlanParse<Plan> {
+  const r = planSchema(ds).safeParse(raw);
+  if (!r.success) return { ok: false, issues: formatZodIssues(r.error) };
+
+  const rf = (r.data.filters ?? {}) as Record<string, unknown>;
+  const filters: Filters = {};
+  for (const [k, v] of Object.entries(rf)) {
+    if (Array.isArray(v)) {
+      if (v.length > 0) filters[k] = Array.from(new Set(v.map(String)));
+    } else if (typeof v === "boolean" || (typeof v === "string" && v)) {
+      filters[k] = v;
+    }
+  }
+
+  const earliest_time = r.data.earliest_time || process.env.DEFAULT_EARLIEST_TIME || "-15m";
+  const latest_time = r.data.latest_time || process.env.DEFAULT_LATEST_TIME || "now";
+  const timeIssue = checkTimeRange(earliest_time, latest_time);
+  if (timeIssue) return { ok: false, issues: [timeIssue] };
+
+  return {
+    ok: true,
+    plan: {
+      language: detectLanguage(userMsg),
+      dataset: ds.id,
+      earliest_time,
+      latest_time,
+      filters,
+      outputs: (r.data.outputs ?? []).map((o) => toOutputSpec(o, ds)),
+    },
+  };
+}
+
+// Most outputs (panels) one Security plan may ask for.
+const MAX_OUTPUTS = 4;
+
+// `contextMsg` carries the earlier user turns of a follow-up, so token/keyword intent
+// stated before ("attack.t1611 events" -> "now only CRITICAL") is not dropped.
+// Returns a note for every rewrite of the model's plan.
+export function ensureGuardrails(plan: Plan, ds: Dataset, userMsg: string, contextMsg: string = userMsg): string[] {
+  const notes: string[] = [];
+  plan.language = detectLanguage(userMsg);
+
+  for (const f of filterFields(ds)) {
+    if (f.type === "multivalue" && f.mention?.token_regex) {
+      const tokens = mentionTokens(f, contextMsg);
+      const had = Array.isArray(plan.filters[f.filter]) ? (plan.filters[f.filter] as string[]) : [];
+      if (tokens.length === 0) {
+        if (had.length > 0) notes.push(`Dropped ${f.filter} [${had.join(", ")}]: the request names no ${f.name} tokens`);
+        delete plan.filters[f.filter];
+      } else {
+        if (had.join(",") !== tokens.join(",")) notes.push(`Set ${f.filter} to the tokens in the request: [${tokens.join(", ")}]`);
+        plan.filters[f.filter] = tokens;
+      }
+    }
+
+    if (f.type === "boolean" && mentionsField(f, contextMsg) && typeof plan.filters[f.filter] !== "boolean") {
+      plan.filters[f.filter] = true;
+      notes.push(`Added ${f.filter}=true: the request mentions ${fieldLabel(f)}`);
+    }
+  }
+
+  if (!Array.isArray(plan.outputs) || plan.outputs.length === 0) {
+    plan.outputs = [{ kind: "table", title: "Events", template: "table", limit: 50 }];
+    notes.push("Plan had no outputs: using an events table");
+  }
+
+  const meaningful = plan.outputs.some((o) => o.kind !== "none");
+  if (!meaningful) {
+    plan.outputs = [{ kind: "table", title: "Events", template: "table", limit: 50 }];
+    notes.push("Plan had no visible outputs: using an events table");
+  }
+
+  if (plan.outputs.length > MAX_OUTPUTS) notes.push(`Kept the first ${MAX_OUTPUTS} of ${plan.outputs.length} outputs`);
+  plan.outputs = plan.outputs.slice(0, MAX_OUTPUTS);
+  return notes;
+}
+
+// Fits every trend span to the plan's time range; run after the range is final (e.g. the time picker).
+export function fitTrendSpans(plan: Plan): string[] {
+  const notes: string[] = [];
+  for (const out of plan.outputs) {
+    if (out.template !== "trend") continue;
+    const fit = fitSpan(out.span, plan.earliest_time, plan.latest_time);
+    out.span = fit.span;
+    if (fit.note) notes.push(`${out.title}: ${fit.note}`);
+  }
+  return notes;
+}
+
+type Drilldown = { group_by: string; value: string; plan: unknown };
+
+export function normalizeDrilldown(raw: unknown): Drilldown | null {
+  if (!raw || typeof raw !== "object") return null;
+  const groupBy = String((raw as { group_by?: unknown }).group_by ?? "").trim();
+  const value = String((raw as { value?: unknown }).value ?? "").trim();
+  if (!groupBy || !value) return null;
+  return { group_by: groupBy, value, plan: (raw as { plan?: unknown }).plan ?? {} };
+}
+
+// Deterministic follow-up for a clicked bar/slice: the originating plan's time range and
+// filters, narrowed by the clicked value, rendered as one evidence table. No planner call.
+export function drilldownPlan(dd: Drilldown, ds: Dataset, userMsg: string): Plan {
+  const parsed = parsePlan(dd.plan, userMsg, ds);
+  if (!parsed.ok) throw new Error(`Invalid drilldown plan: ${parsed.issues.join("; ")}`);
+  const base = parsed.plan;
+  const filters: Filters = { ...base.filters };
+
+  const field = groupFields(ds).find((f) => f.group_by === dd.group_by);
+  if (!field?.filter) throw new Error(`Cannot drill down on "${dd.group_by}" in dataset ${ds.id}`);
+
+  if (field.type === "exact") {
+    const v = canonicalValue(field, dd.value);
+    if (!v) throw new Error(`Invalid ${field.name} drilldown: ${dd.value}`);
+    filters[field.filter] = [v];
+  } else if (field.type === "multivalue") {
+    const v = normalizeToken(field, dd.value);
+    if (!v) throw new Error(`Invalid ${field.name} drilldown: ${dd.value}`);
+    filters[field.filter] = [v];
+  } else if (field.type === "fuzzy") {
+    filters[field.filter] = dd.value.slice(0, 200);
+  } else {
+    filters[field.filter] = dd.value !== (field.empty_value ?? "");
+  }
+
+  const title = base.language === "zh" ? `\u8bc1\u636e\uff1a${dd.value}` : `Evidence: ${dd.value}`;
+  return { ...base, filters, outputs: [{ kind: "table", title, template: "table", limit: 50 }] };
+}
+
+export function planDatasetId(plan: unknown): string | undefined {
+  const id = plan && typeof plan === "object" ? (plan as { dataset?: unknown }).dataset : undefined;
+  return typeof id === "string" ? id : undefined;
+}
+
+// Where the executed plan came from, streamed as `plan_info` next to the plan with any planning warnings.
+export type PlanSource = "model" | "repaired" | "fallback" | "intent_override" | "drilldown" | "rerun" | "reviewed";
+export type PlanInfo = { source: PlanSource; warnings: string[] };
+
+export type StoredPlan =
+  | { workspace: "security"; plan: Plan; ds: Dataset }
+  | { workspace: "observability"; plan: ObservabilityPlan };
+
+// Workspace, dataset and MCP sources a stored plan touches, for the caller's role check.
+export function storedPlanScope(stored: StoredPlan): [StoredPlan["workspace"], string | null, string[]] {
+  if (stored.workspace === "observability") return [stored.workspace, null, stored.plan.requests.map((r) => r.mcp)];
+  return [stored.workspace, stored.ds.id, []];
+}
+
+// Re-validates a plan the client sent back (as streamed in a `plan` event), keeping its language.
+export function restorePlan(raw: unknown): StoredPlan {
+  if (!raw || typeof raw !== "object") throw new Error("Missing plan");
+  const lang = (raw as { language?: unknown }).language === "zh" ? "zh" : "en";
+
+  if (Array.isArray((raw as { requests?: unknown }).requests)) {
+    const parsed = parseObservabilityPlan(raw, "");
+    if (!parsed.ok) throw new Error(`Invalid plan: ${parsed.issues.join("; ")}`);
+    return { workspace: "observability", plan: { ...parsed.plan, language: lang } };
+  }
+
+  const datasetId = planDatasetId(raw);
+  const ds = datasetId ? findDataset(datasetId) : defaultDataset();
+  if (!ds) throw new Error(`Unknown dataset: ${datasetId}`);
+  const parsed = parsePlan(raw, "", ds);
+  if (!parsed.ok) throw new Error(`Invalid plan: ${parsed.issues.join("; ")}`);
+  if (parsed.plan.outputs.length === 0) throw new Error("Invalid plan: no outputs");
+  if (parsed.plan.outputs.length > MAX_OUTPUTS) throw new Error(`Invalid plan: more than ${MAX_OUTPUTS} outputs`);
+  return { workspace: "security", plan: { ...parsed.plan, language: lang }, ds };
+}
+
+function registryKeys(reg: SourceRegistry) {
+  const mcps = new Set<string>();
+  const tools = new Set<string>();
+  const targets = new Set<string>();
+  const metrics = new Set<string>();
+  for (const s of reg.sources) {
+    mcps.add(s.id);
+    for (const t of s.tools) {
+      tools.add(t.name);
+      for (const c of t.combos) {
+        targets.add(c.target);
+        metrics.add(c.metric);
+      }
+    }
+  }
+  return { mcps: [...mcps], tools: [...tools], targets: [...targets], metrics: [...metrics] };
+}
+
+function observabilityPlanSchema(reg: SourceRegistry) {
+  const keys = registryKeys(reg);
+  const request = z
+    .object({
+      mcp: z.enum(keys.mcps),
+      tool: z.enum(keys.tools),
+      target: z.enum(keys.targets),
+      metric: z.enum(keys.metrics),
+      viz: z.enum(["line", "network"]),
+      title: z.string().trim().max(120).optional(),
+    })
+    .refine((r) => findSourceCombo(reg, r) !== null, {
+      message: "mcp/tool/target/metric/viz is not one of the valid combinations",
+    });
+
+  // reg.times are the planner's suggestions; any valid range is accepted (time picker, absolute windows).
+  return z.object({
+    earliest_time: timeModifier.optional(),
+    latest_time: timeModifier.optional(),
+    requests: z.array(request).min(1),
+  });
+}
+
+export function parseObservabilityPlan(raw: unknown, userMsg: string): PlanParse<ObservabilityPlan> {
+  const reg = getSourceRegistry();
+  const r = observabilityPlanSchema(reg).safeParse(raw);
+  if (!r.success) return { ok: false, issues: formatZodIssues(r.error) };
+  const earliest_time = r.data.earliest_time ?? reg.times[0];
+  const latest_time = r.data.latest_time ?? "now";
+  const timeIssue = checkTimeRange(earliest_time, latest_time);
+  if (timeIssue) return { ok: false, issues: [timeIssue] };
+
+  return {
+    ok: true,
+    plan: {
+      language: detectLanguage(userMsg),
+      earliest_time,
+      latest_time,
+      requests: r.data.requests.slice(0, 3).map((req) => ({ ...req, title: req.title || "Observability" })),
+    },
+  };
+}
+
+export function detectObservabilityIntent(userMsg: string): SourceIntent | null {
+  const s = userMsg.toLowerCase();
+  return getSourceRegistry().intents.find((i) => i.keywords.some((k) => s.includes(k.toLowerCase()))) ?? null;
+}
+
+function intentRequests(intent: SourceIntent, lang: "en" | "zh"): ObservabilityRequest[] {
+  const reg = getSourceRegistry();
+  return intent.requests.map((r) => ({
+    mcp: r.mcp,
+    tool: r.tool,
+    target: r.target,
+    metric: r.metric,
+    viz: findSourceCombo(reg, r)?.tool.viz ?? "line",
+    title: r.title[lang],
+  }));
+}
+
+export function fallbackObservabilityPlan(userMsg: string): ObservabilityPlan {
+  const reg = getSourceRegistry();
+  const lang = detectLanguage(userMsg);
+  const intent = detectObservabilityIntent(userMsg) ?? reg.intents.find((i) => i.id === reg.default_intent);
+  return {
+    language: lang,
+    earliest_time: reg.times[0],
+    latest_time: "now",
+    requests: intent ? intentRequests(intent, lang) : [],
+  };
+}
+
+export function requestKeys(plan: ObservabilityPlan): string {
+  return plan.requests.map((r) => `${r.mcp}:${r.tool}:${r.target}:${r.metric}:${r.viz}`).join("|");
+}
+
+export function enforceObservabilityIntent(plan: ObservabilityPlan, userMsg: string): ObservabilityPlan {
+  const intent = detectObservabilityIntent(userMsg);
+  if (!intent) return plan;
+  return { ...plan, requests: intentRequests(intent, plan.language) };
+}
+
+function quoteSpl(v: string): string {
+  return `"${escapeSplString(v)}"`;
+}
+
+function mvVar(field: DatasetField): string {
+  return `__${field.name.toLowerCase().replace(/[^a-z0-9_]/g, "_")}`;
+}
+
+export function buildFilterPipeline(ds: Dataset, filters: Filters): string[] {
+  const lines: string[] = [];
+  const clauses: string[] = [];
+
+  for (const f of filterFields(ds)) {
+    const v = filters[f.filter];
+    if (v === undefined) continue;
+
+    if (f.type === "multivalue" && Array.isArray(v) && v.length > 0) {
+      const mv = mvVar(f);
+      lines.push(`| eval ${mv}=split(${f.name}, ${quoteSpl(f.separator ?? ",")})`);
+      lines.push(`| where (${v.map((t) => `mvfind(${mv},${quoteSpl(t)})>=0`).join(" OR ")})`);
+    } else if (f.type === "exact" && Array.isArray(v) && v.length > 0) {
+      clauses.push(`in(${f.name}, ${v.map(quoteSpl).join(",")})`);
+    } else if (f.type === "fuzzy" && typeof v === "string" && v.length > 0) {
+      clauses.push(`like(${f.name}, "%${escapeSplString(v)}%")`);
+    } else if (f.type === "boolean" && typeof v === "boolean") {
+      if (f.empty_value !== undefined) clauses.push(`${f.name}${v ? "!=" : "="}${quoteSpl(f.empty_value)}`);
+      else clauses.push(v ? `isnotnull(${f.name})` : `isnull(${f.name})`);
+    }
+  }
+
+  if (clauses.length > 0) lines.push(`| where ${clauses.join(" AND ")}`);
+  return lines;
+}
+
+function splCount(ds: Dataset, filters: Filters): string {
+  const fp = buildFilterPipeline(ds, filters);
+  return [...ds.base_search, ...fp, "| stats count as value"].join("\n");
+}
+
+function tableColumns(ds: Dataset): Array<{ name: string; label: string }> {
+  return ds.columns.map((name) => {
+    const f = ds.fields.find((x) => x.name === name);
+    return { name, label: f ? fieldLabel(f) : name };
+  });
+}
+
+function splTable(ds: Dataset, filters: Filters, limit: number): string {
+  const n = clampInt(limit, 5, 200, 50);
+  const fp = buildFilterPipeline(ds, filters);
+  const cols = tableColumns(ds);
+  const renames = cols.filter((c) => c.label !== c.name).map((c) => `${c.name} as ${quoteSpl(c.label)}`);
+  return [
+    ...ds.base_search,
+    ...fp,
+    "| sort 0 -_time",
+    `| head ${n}`,
+    `| table ${cols.map((c) => c.name).join(" ")}`,
+    ...(renames.length > 0 ? [`| rename ${renames.join(" ")}`] : []),
+  ].join("\n");
+}
+
+function splCountBy(ds: Dataset, filters: Filters, field: DatasetField & { group_by: string }, limit: number): string {
+  const n = clampInt(limit, 3, 50, 10);
+  const fp = buildFilterPipeline(ds, filters);
+
+  if (field.type === "multivalue") {
+    const key = field.group_by;
+    return [
+      ...ds.base_search,
+      ...fp,
+      `| eval ${key}=split(${field.name}, ${quoteSpl(field.separator ?? ",")})`,
+      `| mvexpand ${key}`,
+      `| stats count as count by ${key}`,
+      "| sort 0 -count",
+      `| head ${n}`,
+    ].join("\n");
+  }
+  return [...ds.base_search, ...fp, `| stats count as count by ${field.name}`, "| sort 0 -count", `| head ${n}`].join("\n");
+}
+
+function seriesKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9_]/g, "_");
+}
+
+// Bucket labels: dates for daily buckets, dates and times once the range spans more than a day.
+function trendTimeFormat(span: string, range: number): string {
+  if ((parseSpan(span) ?? 0) >= 86400) return "%Y-%m-%d";
+  return range > 86400 ? "%m-%d %H:%M" : "%H:%M";
+}
+
+function splTrend(ds: Dataset, filters: Filters, span: string, range: number, split: DatasetField | null): string {
+  const fp = buildFilterPipeline(ds, filters);
+  const label = `| eval time=strftime(_time,"${trendTimeFormat(span, range)}"), ts=_time*1000`;
+
+  if (split?.values) {
+    const keys = split.values.map(seriesKey);
+    return [
+      ...ds.base_search,
+      ...fp,
+      `| timechart span=${span}`,
+      "  count as total",
+      ...split.values.map((v) => `  count(eval(${split.name}=${quoteSpl(v)})) as ${seriesKey(v)}`),
+      label,
+      `| fields time ts total ${keys.join(" ")}`,
+    ].join("\n");
+  }
+
+  return [
+    ...ds.base_search,
+    ...fp,
+    `| timechart span=${span} count as total`,
+    label,
+    "| fields time ts total",
+  ].join("\n");
+}
+
+function newPanelId(prefix: string, seq: number) {
+  return `${prefix}_${Date.now()}_${seq}`;
+}
+
+const PLANNER_HISTORY_TURNS = 6;
+const PLANNER_HISTORY_TEXT_CHARS = 240;
+
+export function normalizeHistory(raw: unknown): HistoryTurn[] {
+  if (!Array.isArray(raw)) return [];
+  const out: HistoryTurn[] = [];
+  for (const h of raw) {
+    if (!h || typeof h !== "object") continue;
+    const role = (h as { role?: unknown }).role;
+    const text = String((h as { text?: unknown }).text ?? "").trim();
+    if (role !== "user" && role !== "assistant") continue;
+    const plan = (h as { plan?: unknown }).plan;
+    if (!text && !plan) continue;
+    out.push(plan && typeof plan === "object" ? { role, text, plan } : { role, text });
+  }
+  return out.slice(-PLANNER_HISTORY_TURNS);
+}
+
+function isPlanForWorkspace(plan: unknown, workspace: "security" | "observability"): boolean {
+  if (!plan || typeof plan !== "object") return false;
+  if (workspace === "observability") return Array.isArray((plan as { requests?: unknown }).requests);
+  return Array.isArray((plan as { outputs?: unknown }).outputs);
+}
+
+function truncateText(s: string, max: number): string {
+  const t = s.replace(/\s+/g, " ").trim();
+  return t.length > max ? `${t.slice(0, max)}...` : t;
+}
+
+// Earlier user turns, joined with the current message, for keyword-based guardrails.
+export function historyUserContext(history: HistoryTurn[], userMsg: string): string {
+  return [...history.filter((h) => h.role === "user").map((h) => h.text), userMsg].join("\n");
+}
+
+// Compact context for the planner: recent turns plus the last plan of this workspace,
+// so follow-ups ("now only CRITICAL ones", "same but last hour") refine instead of restart.
+export function plannerUserContent(
+  userMsg: string,
+  history: HistoryTurn[],
+  workspace: "security" | "observability",
+  datasetId?: string,
+): string {
+  if (history.length === 0) return userMsg;
+
+  // A plan for another dataset uses other filter keys, so it is not offered as a starting point.
+  const lastPlan = [...history]
+    .reverse()
+    .find((h) => isPlanForWorkspace(h.plan, workspace) && (!datasetId || (planDatasetId(h.plan) ?? datasetId) === datasetId))?.plan;
+  const lines: string[] = ["Conversation so far (oldest first):"];
+  for (const h of history) {
+    if (h.text) lines.push(`- ${h.role}: ${truncateText(h.text, PLANNER_HISTORY_TEXT_CHARS)}`);
+  }
+  if (lastPlan) {
+    const planBody = { ...(lastPlan as Record<string, unknown>) };
+    delete planBody.language;
+    delete planBody.dataset;
+    lines.push("", "Previous plan JSON:", JSON.stringify(planBody));
+  }
+  lines.push("", "Current request:", userMsg);
+  return lines.join("\n");
+}
+
+function fieldRule(f: DatasetField): string {
+  let rule = "";
+  if (f.type === "exact") rule = f.values ? `exact match only (${f.values.join("/")}).` : "exact match only.";
+  else if (f.type === "fuzzy") rule = "fuzzy substring match only.";
+  else if (f.type === "boolean") {
+    rule = f.empty_value !== undefined ? `either '${f.empty_value}' or not '${f.empty_value}'.` : "either present or absent.";
+  } else rule = "list of tokens.";
+  if (f.description) rule = f.type === "multivalue" ? `${f.description}.` : `${rule} ${f.description}`;
+  if (f.mention?.token_regex && f.filter) rule += ` Use ${f.filter} ONLY when the user provides explicit tokens.`;
+  return `- ${f.name}: ${rule}`;
+}
+
+function filterKeyLine(f: DatasetField & { filter: string }): string {
+  if (f.type === "exact") return `- ${f.filter}: ${JSON.stringify(f.values ?? ["value"])}`;
+  if (f.type === "fuzzy") return `- ${f.filter}: "substring"`;
+  if (f.type === "boolean") return `- ${f.filter}: true|false`;
+  return `- ${f.filter}: ["token"]${f.mention?.token_regex ? " (ONLY if explicit tokens)" : ""}`;
+}
+
+function timeRangeLines(): string[] {
+  return [
+    '- Relative: "-15m", "-24h", "-7d", "-1d@d" (start of yesterday), "@d" (start of today), "now".',
+    '- Absolute windows ("between 02:00 and 03:30 yesterday"): ISO 8601 instants with offset, e.g. "2026-01-31T02:00:00+08:00".',
+    `- Current time: ${localIsoString()}`,
+  ];
+}
+
+export function plannerSystemPrompt(ds: Dataset): string {
+  const options = (values: string[]) => values.map((v) => JSON.stringify(v)).join("|");
+  const groups = groupFields(ds).map((f) => f.group_by);
+  const splits = ["none", ...splitFields(ds).map((f) => splitKey(f.group_by))];
+
+  return [
+    "You are a fast planner for an IT operations assistant.",
+    "Return ONLY one JSON object. No markdown. No extra text.",
+    "Do NOT write SPL. Do NOT invent fields. Do NOT invent savedsearch names.",
+    "",
+    `Dataset: ${ds.label}`,
+    "Data fields and rules:",
+    "- _time: time filter only.",
+    ...ds.fields.map(fieldRule),
+    "",
+    "Filter keys you may output (all optional):",
+    ...filterFields(ds).map(filterKeyLine),
+    "",
+    "Output panel templates you may choose (1 to 4):",
+    '- { "kind":"single", "title":"...", "template":"count" }',
+    '- { "kind":"table", "title":"...", "template":"table", "limit":50 }',
+    `- { "kind":"bar"|"pie", "title":"...", "template":"count_by", "group_by":${options(groups)}, "limit":10 }`,
+    `- { "kind":"line", "title":"...", "template":"trend", "span":"5m", "split":${options(splits)} }`,
+    '  span: <integer><s|m|h|d|w>, about 30-100 buckets over the range (e.g. 5m for -4h, 30m for -24h); omit to pick one automatically.',
+    "",
+    "Time range:",
+    ...timeRangeLines(),
+    "",
+    "JSON schema (use double quotes):",
+    '{ "earliest_time":"-15m", "latest_time":"now", "filters":{ }, "outputs":[ ] }',
+    "",
+    "Guidelines:",
+    '- If user asks to list/show events, include a table.',
+    '- If user asks distribution/statistics, include count_by.',
+    '- If user asks trend over time, include trend.',
+    "- If uncertain, include a table.",
+    "- If a previous plan is given and the request is a follow-up, start from it and change only what the user asks (filters, outputs or time range).",
+  ].join("\n");
+}
+
+export function observabilityPlannerSystemPrompt(): string {
+  const reg = getSourceRegistry();
+  const keys = registryKeys(reg);
+  const options = (values: string[]) => values.map((v) => JSON.stringify(v)).join(" | ");
+
+  const combos: string[] = [];
+  reg.sources.forEach((s, idx) => {
+    for (const t of s.tools) {
+      combos.push(`${idx + 1}) ${s.label}: mcp="${s.id}", tool="${t.name}", viz="${t.viz}",`);
+      for (const c of t.combos) combos.push(`   - target="${c.target}", metric="${c.metric}"`);
+    }
+  });
+
+  const example = reg.intents.find((i) => i.id === reg.default_intent)?.requests[0];
+  const exampleReq = example
+    ? { mcp: example.mcp, tool: example.tool, target: example.target, metric: example.metric, viz: findSourceCombo(reg, example)?.tool.viz, title: "..." }
+    : { title: "..." };
+
+  return [
+    "You are a strict planner for the Observability analytics workspace.",
+    "Return ONLY one JSON object. No markdown. No extra text.",
+    "Choose values ONLY from the allowed options below. Do NOT invent new strings.",
+    "",
+    "Time range options:",
+    `- earliest_time: ${options(reg.times)}`,
+    '- latest_time: "now"',
+    "- Only for an explicit absolute window, use ISO 8601 instants for both instead.",
+    `- Current time: ${localIsoString()}`,
+    "",
+    "Allowed request fields:",
+    `- mcp: ${options(keys.mcps)}`,
+    `- tool: ${options(keys.tools)}`,
+    `- target: ${options(keys.targets)}`,
+    `- metric: ${options(keys.metrics)}`,
+    '- viz: "line" | "network"',
+    "- title: short label",
+    "",
+    "Valid combinations (MUST follow):",
+    ...combos,
+    "",
+    "Guidance:",
+    ...reg.intents.filter((i) => i.guidance).map((i) => `- ${i.guidance}`),
+    "- If a previous plan is given and the request is a follow-up, keep its requests and change only what the user asks.",
+    "",
+    "JSON schema (use double quotes):",
+    JSON.stringify({ earliest_time: reg.times[0], latest_time: "now", requests: [exampleReq] }),
+  ].join("\n");
+}
+
+function explainerSystemPrompt(lang: "en" | "zh"): string {
+  const langLine = lang === "zh" ? "You MUST reply in Simplified Chinese." : "You MUST reply in English.";
+  return [
+    "You are an IT operations assistant.",
+    "Return a Markdown answer.",
+    "No <think> blocks.",
+    langLine,
+    "",
+    "Use ONLY the evidence provided. Do NOT invent numbers.",
+    "If failed_panels is present, say briefly which panels could not be loaded; do not guess their contents.",
+    "Structure:",
+    "1) 2-4 line summary",
+    "2) 3-6 bullet key findings with numbers",
+    "3) 2-4 bullet next actions",
+  ].join("\n");
+}
+
+function applyNoThinkIfNeeded(messages: Array<{ role: "system" | "user" | "assistant"; content: string }>, disableThinking: boolean) {
+  if (!disableThinking) return messages;
+  return messages.map((m, idx) => {
+    if (idx === messages.length - 1 && m.role === "user") {
+      return { ...m, content: `/no_think\n${m.content}` };
+    }
+    return m;
+  });
+}
+
+// Aborts after timeoutMs or when the caller's signal fires, whichever comes first.
+function timeoutSignal(timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+async function callQwenNonStream(
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>,
+  max_tokens: number,
+  timeoutMs: number,
+  signal?: AbortSignal,
+) {
+  const url = resolveQwenChatCompletionsUrl();
+  const model = process.env.QWEN_MODEL || "Qwen/Qwen3-14B-FP8";
+  const dispatcher = dispatcherFor(url);
+
+  const disableThinking = envBool("QWEN_DISABLE_THINKING", true);
+  const msgs = applyNoThinkIfNeeded(messages, disableThinking);
+
+  const abort = timeoutSignal(timeoutMs, signal);
+
+  try {
+    const body = {
+      model,
+      messages: msgs,
+      max_tokens,
+      temperature: 0.0,
+      top_p: 1.0,
+      stream: false,
+      enable_thinking: !disableThinking ? true : false,
+      chat_template_kwargs: { enable_thinking: !disableThinking ? true : false },
+    } satisfies Record<string, unknown>;
+
+    const resp = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: abort.signal,
+      // @ts-expect-error undici dispatcher is not yet in the standard fetch typings.
+      dispatcher,
+    });
+
+    const text = await resp.text();
+    const json = tryParseJson(text);
+
+    if (!resp.ok) {
+      const preview = text ? text.slice(0, 800) : "";
+      throw new Error(`Qwen HTTP ${resp.status}: ${preview}`);
+    }
+
+    let content = "";
+    if (json && typeof json === "object") {
+      const choices = (json as { choices?: unknown }).choices;
+      if (Array.isArray(choices) && choices[0] && typeof choices[0] === "object") {
+        const message = (choices[0] as { message?: unknown }).message;
+        if (message && typeof message === "object") {
+          const raw = (message as { content?: unknown }).content;
+          if (typeof raw === "string") content = raw;
+        }
+      }
+    }
+    return content;
+  } finally {
+    abort.clear();
+  }
+}
+
+function repairPrompt(issues: string[]): string {
+  return [
+    "Your JSON plan failed validation:",
+    ...issues.map((i) => `- ${i}`),
+    "Return ONLY the corrected JSON object, using only the allowed keys and values.",
+  ].join("\n");
+}
+
+// Ask the planner for a JSON plan and validate it. Validation errors go back to the model
+// for at most PLANNER_REPAIR_ATTEMPTS (0-2) repair rounds; after that the caller falls back.
+export async function planWithRepair<T>(
+  system: string,
+  userContent: string,
+  parse: (raw: unknown) => PlanParse<T>,
+  onRepair: (attempt: number, issues: string[]) => void,
+  signal?: AbortSignal,
+): Promise<{ plan: T; repaired: boolean } | { plan: null; reason: string }> {
+  const timeoutMs = clampInt(process.env.PLANNER_TIMEOUT_MS, 2000, 300000, 45000);
+  const maxTokens = clampInt(process.env.PLANNER_MAX_TOKENS, 64, 1500, 256);
+  const maxRepairs = clampInt(process.env.PLANNER_REPAIR_ATTEMPTS, 0, 2, 2);
+
+  const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
+    { role: "system", content: system },
+    { role: "user", content: userContent },
+  ];
+
+  for (let attempt = 0; ; attempt += 1) {
+    const raw = await callQwenNonStream(messages, maxTokens, timeoutMs, signal);
+    auditPlannerOutput(raw);
+    const obj = extractJsonObjectLoose(raw);
+    const parsed: PlanParse<T> = obj ? parse(obj) : { ok: false, issues: ["(root): response did not contain a JSON object"] };
+    if (parsed.ok) return { plan: parsed.plan, repaired: attempt > 0 };
+
+    if (attempt >= maxRepairs) {
+      return { plan: null, reason: `Plan rejected after ${attempt} repair attempt(s): ${parsed.issues.join("; ")}` };
+    }
+    onRepair(attempt + 1, parsed.issues);
+    messages.push({ role: "assistant", content: raw }, { role: "user", content: repairPrompt(parsed.issues) });
+  }
+}
+
+async function* callQwenStream(
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>,
+  max_tokens: number,
+  timeoutMs: number,
+  signal?: AbortSignal,
+) {
+  const url = resolveQwenChatCompletionsUrl();
+  const model = process.env.QWEN_MODEL || "Qwen/Qwen3-14B-FP8";
+  const dispatcher = dispatcherFor(url);
+
+  const disableThinking = envBool("QWEN_DISABLE_THINKING", true);
+  const msgs = applyNoThinkIfNeeded(messages, disableThinking);
+
+  const abort = timeoutSignal(timeoutMs, signal);
+
+  try {
+    const body = {
+      model,
+      messages: msgs,
+      max_tokens,
+      temperature: 0.2,
+      top_p: 0.9,
+      stream: true,
+      enable_thinking: !disableThinking ? true : false,
+      chat_template_kwargs: { enable_thinking: !disableThinking ? true : false },
+    } satisfies Record<string, unknown>;
+
+    const resp = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: abort.signal,
+      // @ts-expect-error undici dispatcher is not yet in the standard fetch typings.
+      dispatcher,
+    });
+
+    if (!resp.ok) {
+      const text = await resp.text().catch(() => "");
+      const preview = text ? text.slice(0, 800) : "";
+      throw new Error(`Qwen HTTP ${resp.status}: ${preview}`);
+    }
+    if (!resp.body) throw new Error("Qwen stream body missing");
+
+    const reader = resp.body.getReader();
+    const decoder = new TextDecoder("utf-8");
+    let buf = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buf += decoder.decode(value, { stream: true });
+
+      while (true) {
+        const idx = buf.indexOf("\n\n");
+        if (idx < 0) break;
+        const chunk = buf.slice(0, idx);
+        buf = buf.slice(idx + 2);
+
+        const lines = chunk.split("\n").map((l) => l.trim());
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const payload = line.slice(5).trim();
+          if (!payload || payload === "[DONE]") continue;
+
+          const obj = tryParseJson(payload);
+          let content = "";
+          if (obj && typeof obj === "object") {
+            const choices = (obj as { choices?: unknown }).choices;
+            if (Array.isArray(choices) && choices[0] && typeof choices[0] === "object") {
+              const delta = (choices[0] as { delta?: unknown }).delta;
+              if (delta && typeof delta === "object") {
+                const raw = (delta as { content?: unknown }).content;
+                if (typeof raw === "string") content = raw;
+              }
+            }
+          }
+          if (!content) continue;
+
+          yield String(content);
+        }
+      }
+    }
+  } finally {
+    abort.clear();
+  }
+}
+
+function buildEvidenceFromPanels(panels: Panel[]) {
+  const ev: Array<Record<string, unknown>> = [];
+  for (const p of panels) {
+    if (p.kind === "single") ev.push({ kind: "single", title: p.title, value: p.value });
+    else if (p.kind === "bar" || p.kind === "pie") ev.push({ kind: p.kind, title: p.title, xKey: p.xKey, yKey: p.yKey, top: (p.data || []).slice(0, 10) });
+    else if (p.kind === "line") ev.push({ kind: "line", title: p.title, xKey: p.xKey, seriesKeys: p.seriesKeys, tail: (p.data || []).slice(-12) });
+    else if (p.kind === "table") ev.push({ kind: "table", title: p.title, columns: p.columns, sample: (p.rows || []).slice(0, 6), totalRows: (p.rows || []).length });
+    else if (p.kind === "network") {
+      ev.push({
+        kind: "network",
+        title: p.title,
+        rows: (p.rows || []).map((row) => ({
+          source: row.source,
+          nodes: row.nodes.map((n) => ({ label: n.label, status: n.status })),
+          edges: row.edges.map((e) => ({ from: e.from, to: e.to, label: e.label })),
+          stats: row.stats || {},
+          annotations: row.annotations || [],
+        })),
+      });
+    }
+  }
+  return ev;
+}
+
+function fallbackMarkdown(lang: "en" | "zh", panels: Panel[]) {
+  const single = panels.find((p) => p.kind === "single");
+  const cnt = single && "value" in single ? single.value : null;
+
+  if (lang === "zh") {
+    const head = cnt != null ? `**\u8fd4\u56de\u6570\u91cf\uff1a${cnt}\u6761**` : `**\u5df2\u8fd4\u56de\u56fe\u8868\u4e0e\u8868\u683c**`;
+    return `${head}\n\n\u6a21\u578b\u89e3\u91ca\u9636\u6bb5\u5931\u8d25\uff0c\u4f46 Splunk \u6570\u636e\u9762\u677f\u5df2\u7ecf\u8fd4\u56de\u3002`;
+  }
+
+  const headEn = cnt != null ? `**Returned: ${cnt} events**` : `**Charts and tables returned**`;
+  return `${headEn}\n\nThe explanation stage failed, but Splunk panels are already returned.`;
+}
+
+function normalizeChartData(rows: McpRow[]): ChartDatum[] {
+  return rows.map((row) => {
+    const out: ChartDatum = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (typeof value === "string" || typeof value === "number") {
+        out[key] = value;
+      } else if (value != null) {
+        out[key] = String(value);
+      }
+    }
+    return out;
+  });
+}
+
+function normalizeTableValue(value: unknown): string | number | null | undefined {
+  if (value == null) return value as null | undefined;
+  if (typeof value === "string" || typeof value === "number") return value;
+  return String(value);
+}
+
+function normalizeTableRows(rows: McpRow[], columns: string[]): TableRow[] {
+  return rows.map((row) => {
+    const out: TableRow = {};
+    for (const col of columns) {
+      out[col] = normalizeTableValue(row[col]);
+    }
+    return out;
+  });
+}
+
+// Runs tasks with at most `limit` in flight and settles every one, so a failing query does not
+// take the others down. Tasks not yet started are skipped once `signal` aborts.
+async function runLimited<T>(
+  tasks: Array<() => Promise<T>>,
+  limit: number,
+  signal?: AbortSignal,
+): Promise<PromiseSettledResult<T>[]> {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const idx = next++;
+      try {
+        signal?.throwIfAborted();
+        results[idx] = { status: "fulfilled", value: await tasks[idx]() };
+      } catch (reason: unknown) {
+        results[idx] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+function panelConcurrency(): number {
+  return clampInt(process.env.PANEL_CONCURRENCY, 1, 8, 4);
+}
+
+async function runPanels(
+  plan: Plan,
+  ds: Dataset,
+  pushPanel: (p: Panel) => void,
+  pushError: (e: PanelError) => void,
+  signal?: AbortSignal,
+) {
+  const tasks = plan.outputs.flatMap((out, index) => {
+    if (out.kind === "none") return [];
+    const panelId = newPanelId(panelPrefix(out), index);
+    return [
+      async () => {
+        try {
+          pushPanel(await buildPanel(plan, ds, index, panelId, signal));
+        } catch (e: unknown) {
+          if (signal?.aborted) throw e;
+          pushError({ panel_id: panelId, title: out.title, query: outputQuery(plan, ds, out), message: getErrorMessage(e), index });
+        }
+      },
+    ];
+  });
+  await runLimited(tasks, panelConcurrency(), signal);
+  signal?.throwIfAborted();
+}
+
+function panelPrefix(out: OutputSpec): string {
+  if (out.template === "count") return "p_single";
+  if (out.template === "table") return "p_table";
+  if (out.template === "count_by") return "p_dist";
+  return "p_trend";
+}
+
+// The SPL for one output, shared by the panel itself and its error card.
+function outputQuery(plan: Plan, ds: Dataset, out: OutputSpec): string {
+  if (out.template === "count") return splCount(ds, plan.filters);
+  if (out.template === "table") return splTable(ds, plan.filters, clampInt(out.limit, 5, 200, 50));
+  if (out.template === "count_by") {
+    const groups = groupFields(ds);
+    const field = groups.find((f) => f.group_by === out.group_by) ?? groups[0];
+    return splCountBy(ds, plan.filters, field, clampInt(out.limit, 3, 50, 10));
+  }
+  // Stored plans come back from the client, so the span is checked again before it reaches SPL.
+  const { span } = fitSpan(out.span, plan.earliest_time, plan.latest_time);
+  const range = rangeSeconds(plan.earliest_time, plan.latest_time) ?? 0;
+  const split = splitFields(ds).find((f) => splitKey(f.group_by) === out.split) ?? null;
+  return splTrend(ds, plan.filters, span, range, split);
+}
+
+// Builds the panel for plan.outputs[index]; also used to retry a single failed panel.
+export async function buildPanel(plan: Plan, ds: Dataset, index: number, panelId: string, signal?: AbortSignal): Promise<Panel> {
+  const out = plan.outputs[index];
+  if (!out || out.kind === "none") throw new Error(`Plan has no panel at output ${index}`);
+  const spl = outputQuery(plan, ds, out);
+
+  if (out.template === "count") {
+    const rows = await callSplunkMcp(spl, plan.earliest_time, plan.latest_time, 5, signal);
+    const v = Number((rows?.[0] as McpRow | undefined)?.value ?? 0);
+    return { panel_id: panelId, index, title: out.title, kind: "single", spl, label: "count", value: v };
+  }
+
+  if (out.template === "table") {
+    const limit = clampInt(out.limit, 5, 200, 50);
+    const rows = await callSplunkMcp(spl, plan.earliest_time, plan.latest_time, limit, signal);
+    const columns = tableColumns(ds).map((c) => c.label);
+    return {
+      panel_id: panelId,
+      index,
+      title: out.title,
+      kind: "table",
+      spl,
+      columns,
+      rows: normalizeTableRows(rows, columns),
+    };
+  }
+
+  if (out.template === "count_by") {
+    const groups = groupFields(ds);
+    const field = groups.find((f) => f.group_by === out.group_by) ?? groups[0];
+    const limit = clampInt(out.limit, 3, 50, 10);
+    const data = normalizeChartData(await callSplunkMcp(spl, plan.earliest_time, plan.latest_time, limit, signal));
+    const xKey = field.type === "multivalue" ? field.group_by : field.name;
+    const drilldown = { group_by: field.group_by, label: fieldLabel(field) };
+
+    const kind: "bar" | "pie" = out.kind === "pie" ? "pie" : "bar";
+    return { panel_id: panelId, index, title: out.title, kind, spl, xKey, yKey: "count", data, drilldown };
+  }
+
+  const split = splitFields(ds).find((f) => splitKey(f.group_by) === out.split) ?? null;
+  const data = normalizeChartData(await callSplunkMcp(spl, plan.earliest_time, plan.latest_time, 500, signal));
+  const seriesKeys = ["total", ...(split?.values ?? []).map(seriesKey)];
+  return { panel_id: panelId, index, title: out.title, kind: "line", spl, xKey: "time", seriesKeys, data };
+}
+
+function formatTimeLabel(date: Date): string {
+  return date.toTimeString().slice(0, 5);
+}
+
+function buildMinuteSeries(values: number[], end: number) {
+  // Whole minutes, so a live refresh lands on the same points.
+  const last = Math.floor(end / 60000) * 60000;
+  const start = last - (values.length - 1) * 60 * 1000;
+  return values.map((value, idx) => {
+    const ts = start + idx * 60 * 1000;
+    return { time: formatTimeLabel(new Date(ts)), ts, value };
+  });
+}
+
+// Canned points ending at the plan's latest_time, so absolute windows get plausible labels too.
+function mockLineSeries(match: SourceMatch, plan: ObservabilityPlan) {
+  const end = resolveTime(plan.latest_time) ?? Date.now();
+  return buildMinuteSeries(match.combo.mock_values ?? Array.from({ length: 15 }, () => 0), end);
+}
+
+function mockHubbleRow(): NetworkRow {
+  return {
+    source: "Hubble MCP (Overlay)",
+    nodes: [
+      { id: "world", label: "World", status: "ok" },
+      { id: "ai-serving/foundation-instruct-vllm", label: "ai-serving/foundation-instruct-vllm", status: "alert" },
+    ],
+    edges: [{ from: "world", to: "ai-serving/foundation-instruct-vllm", label: "Policy Drop: 20" }],
+    stats: { policy_drop: 20 },
+  };
+}
+
+function mockNdiRow(): NetworkRow {
+  const nodes: NetworkNode[] = [
+    { id: "world", label: "World", status: "ok" },
+    { id: "router-03", label: "Router-03", status: "ok" },
+    { id: "leaf-02", label: "Leaf-02", status: "ok" },
+    { id: "spine-01", label: "Spine-01", status: "ok" },
+    { id: "leaf-01", label: "Leaf-01", status: "ok" },
+    { id: "loadbalancer-01", label: "Loadbalancer-01", status: "ok" },
+    { id: "leaf01", label: "Leaf01", status: "ok" },
+    { id: "spine-02", label: "Spine-02", status: "ok" },
+    { id: "leaf-03", label: "Leaf-03", status: "ok" },
+    { id: "csco-k8s-03", label: "csco-k8s-03", status: "ok" },
+  ];
+  const edges: NetworkEdge[] = [];
+  for (let i = 0; i < nodes.length - 1; i += 1) {
+    edges.push({ from: nodes[i].id, to: nodes[i + 1].id });
+  }
+  return {
+    source: "NDI MCP (Underlay)",
+    nodes,
+    edges,
+    stats: { anomalies: 0 },
+  };
+}
+
+// Describes an MCP request in place of SPL, for the query details of panels and error cards.
+function observabilityQuery(plan: ObservabilityPlan, req: ObservabilityRequest, match: SourceMatch | null): string {
+  const source = match ? match.source.label : req.mcp;
+  return [
+    `MCP: ${source}${match && observabilityMocksEnabled() ? " (mock)" : ""}`,
+    `Tool: ${req.tool}`,
+    `Target: ${req.target}`,
+    `Metric: ${req.metric}`,
+    `Range: ${plan.earliest_time} -> ${plan.latest_time}`,
+  ].join("\n");
+}
+
+async function fetchObservabilityData(plan: ObservabilityPlan, index: number, signal?: AbortSignal) {
+  const req = plan.requests[index];
+  if (!req) throw new Error(`Plan has no request at index ${index}`);
+  const match = findSourceCombo(getSourceRegistry(), req);
+  if (!match) throw new Error(`Unregistered observability request: ${req.mcp}/${req.tool}/${req.target}/${req.metric}`);
+  const mock = observabilityMocksEnabled();
+
+  if (match.tool.viz === "line") {
+    const series = mock
+      ? { data: mockLineSeries(match, plan), seriesKeys: ["value"] }
+      : await callSourceTool(
+          match,
+          req,
+          plan.earliest_time,
+          plan.latest_time,
+          (result) => timeseriesFromResult(result, req.metric),
+          (s) => s.data.length,
+          signal,
+        );
+    return { viz: "line" as const, req, match, series };
+  }
+
+  const row = mock
+    ? match.tool.parser === "hubble_flows"
+      ? mockHubbleRow()
+      : mockNdiRow()
+    : await callSourceTool(
+        match,
+        req,
+        plan.earliest_time,
+        plan.latest_time,
+        (result) => networkRowFromResult(match, result, req.target),
+        undefined,
+        signal,
+      );
+  return { viz: "network" as const, req, match, row };
+}
+
+function observabilityLinePanel(
+  plan: ObservabilityPlan,
+  req: ObservabilityRequest,
+  match: SourceMatch,
+  series: { data: ChartDatum[]; seriesKeys: string[] },
+  panelId: string,
+  index: number,
+): Panel {
+  const spl = observabilityQuery(plan, req, match);
+  return { panel_id: panelId, index, title: req.title, kind: "line", spl, xKey: "time", seriesKeys: series.seriesKeys, data: series.data };
+}
+
+// Builds the panel for plan.requests[index] on its own; a topology request gets a one-row network panel.
+export async function buildObservabilityPanel(plan: ObservabilityPlan, index: number, panelId: string, signal?: AbortSignal): Promise<Panel> {
+  const r = await fetchObservabilityData(plan, index, signal);
+  if (r.viz === "line") return observabilityLinePanel(plan, r.req, r.match, r.series, panelId, index);
+  return { panel_id: panelId, index, title: r.req.title, kind: "network", rows: [r.row] };
+}
+
+async function runObservabilityPanels(
+  plan: ObservabilityPlan,
+  pushPanel: (p: Panel) => void,
+  pushError: (e: PanelError) => void,
+  signal?: AbortSignal,
+) {
+  const reg = getSourceRegistry();
+  // Line panels stream as they complete; topology rows are merged into one panel at the end.
+  const networkRows: Array<NetworkRow | undefined> = new Array(plan.requests.length);
+
+  const tasks = plan.requests.map((req, index) => async () => {
+    const match = findSourceCombo(reg, req);
+    const panelId = newPanelId(match?.tool.viz === "network" ? "p_net" : "p_trend", index);
+    try {
+      const r = await fetchObservabilityData(plan, index, signal);
+      if (r.viz === "line") pushPanel(observabilityLinePanel(plan, r.req, r.match, r.series, panelId, index));
+      else networkRows[index] = r.row;
+    } catch (e: unknown) {
+      if (signal?.aborted) throw e;
+      pushError({ panel_id: panelId, title: req.title, query: observabilityQuery(plan, req, match), message: getErrorMessage(e), index });
+    }
+  });
+
+  await runLimited(tasks, panelConcurrency(), signal);
+  signal?.throwIfAborted();
+
+  const rows = networkRows.filter((r): r is NetworkRow => !!r);
+  if (rows.length > 0) {
+    const title =
+      plan.language === "zh" ? "\u901a\u4fe1\u5f02\u5e38\uff08Overlay/Underlay\uff09" : "Communication anomalies (Overlay/Underlay)";
+    pushPanel({ panel_id: newPanelId("p_net", plan.requests.length), title, kind: "network", rows });
+  }
+}
+
+// One streamed turn as seen by the pipeline: `stage` records and announces the current step.
+export type TurnWriter = {
+  write: (event: string, data: unknown) => void;
+  stage: (name: string) => void;
+  signal: AbortSignal;
+};
+
+// Runs fn once the global LLM queue has a free slot; while waiting the client gets
+// status { stage: "queued", position } and `stage` again once the slot is granted.
+export async function withLlmSlot<T>(turn: TurnWriter, stage: string, fn: () => Promise<T>): Promise<T> {
+  let queued = false;
+  const release = await acquireLlmSlot(turn.signal, (position) => {
+    queued = true;
+    turn.write("status", { stage: "queued", position, message: `queued, position ${position}` });
+  });
+  try {
+    if (queued) turn.stage(stage);
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+// Runs a validated plan and explains the result: plan, panel/panel_error, delta and done events.
+// Shared by a freshly planned turn and a re-run of a stored plan; relative times resolve anew.
+export async function executePlan(stored: StoredPlan, userMsg: string, turn: TurnWriter) {
+  const { write, signal } = turn;
+  const plan = stored.plan;
+  write("plan", plan);
+  turn.stage(stored.workspace === "observability" ? "querying_mcp" : "querying_splunk");
+
+  // A failed query becomes an error card; the explainer still runs over the panels that succeeded.
+  const panels: Panel[] = [];
+  const failed: PanelError[] = [];
+  const pushPanel = (p: Panel) => {
+    panels.push(p);
+    write("panel", p);
+  };
+  const pushError = (e: PanelError) => {
+    failed.push(e);
+    write("panel_error", e);
+  };
+
+  if (stored.workspace === "observability") await runObservabilityPanels(stored.plan, pushPanel, pushError, signal);
+  else await runPanels(stored.plan, stored.ds, pushPanel, pushError, signal);
+
+  turn.stage("explaining");
+
+  const evidence = buildEvidenceFromPanels(panels);
+  const failedPanels = failed.length > 0 ? { failed_panels: failed.map((f) => ({ title: f.title, error: f.message })) } : {};
+  const explainerInput =
+    stored.workspace === "observability"
+      ? {
+          user: userMsg,
+          time: { earliest: plan.earliest_time, latest: plan.latest_time },
+          requests: stored.plan.requests,
+          evidence,
+          ...failedPanels,
+          ...(observabilityMocksEnabled() ? { note: "Demo mode: evidence is canned mock data, not live measurements." } : {}),
+        }
+      : {
+          user: userMsg,
+          time: { earliest: plan.earliest_time, latest: plan.latest_time },
+          dataset: stored.ds.label,
+          filters: stored.plan.filters,
+          outputs: stored.plan.outputs,
+          evidence,
+          ...failedPanels,
+        };
+
+  const explainerTimeout = clampInt(process.env.EXPLAINER_TIMEOUT_MS, 5000, 300000, 60000);
+  const explainerTokens = clampInt(process.env.EXPLAINER_MAX_TOKENS, 128, 3000, 700);
+
+  const sys = explainerSystemPrompt(plan.language);
+  const msgs = [
+    { role: "system" as const, content: sys },
+    { role: "user" as const, content: JSON.stringify(explainerInput) },
+  ];
+
+  try {
+    await withLlmSlot(turn, "explaining", async () => {
+      for await (const delta of callQwenStream(msgs, explainerTokens, explainerTimeout, signal)) {
+        if (delta) write("delta", { text: delta });
+      }
+    });
+    write("done", { llm_ok: true });
+  } catch (e: unknown) {
+    if (signal.aborted) throw e;
+    const msg = getErrorMessage(e);
+    const fb = fallbackMarkdown(plan.language, panels);
+    write("delta", { text: fb });
+    write("done", { llm_ok: false, llm_error: msg });
+  }
+}
+
+export function sseEvent(event: string, dataObj: unknown) {
+  const data = JSON.stringify(dataObj);
+  return `event: ${event}\ndata: ${data}\n\n`;
+}
+
+export function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function defaultPlan(userMsg: string, ds: Dataset): Plan {
+  const lang = detectLanguage(userMsg);
+  const earliest_time = process.env.DEFAULT_EARLIEST_TIME || "-15m";
+  const latest_time = process.env.DEFAULT_LATEST_TIME || "now";
+
+  // Chart the field the request mentions (e.g. network activity), else the first groupable field.
+  const groups = groupFields(ds);
+  const chart = groups.find((f) => f.type === "boolean" && mentionsField(f, userMsg)) ?? groups[0];
+  const outputs: OutputSpec[] = [
+    { kind: "bar", title: fieldLabel(chart), template: "count_by", group_by: chart.group_by, limit: 10 },
+    { kind: "table", title: "Events", template: "table", limit: 50 },
+  ];
+
+  return { language: lang, dataset: ds.id, earliest_time, latest_time, filters: {}, outputs };
+}
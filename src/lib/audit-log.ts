@@ -0,0 +1,151 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { createReadStream, promises as fs } from "node:fs";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import type { Workspace } from "@/lib/session-store";
+
+// Compliance trail: one JSON line per /api/chat, /api/run or /api/panel request with who asked,
+// what the planner returned, the plan that ran, every MCP call and how long each stage took.
+
+export type McpCallRecord = {
+  endpoint: string;
+  tool: string;
+  // The SPL for Splunk; the tool arguments as JSON for other sources.
+  query: string;
+  // Rows (Splunk) or data points (line series) returned, when the result has rows.
+  rows?: number;
+  ms: number;
+  error?: string;
+};
+
+export type AuditRecord = {
+  id: string;
+  at: string;
+  route: "chat" | "run" | "panel";
+  identity: string;
+  workspace: Workspace;
+  session_id: string | null;
+  message: string;
+  // Raw planner responses, one per attempt (repairs included).
+  planner_output: string[];
+  plan: unknown;
+  plan_info?: unknown;
+  mcp_calls: McpCallRecord[];
+  llm_ok?: boolean;
+  cancelled?: boolean;
+  error?: string;
+  // Milliseconds spent in each stage (planning, querying, explaining).
+  stages: Record<string, number>;
+  total_ms: number;
+};
+
+export function auditLogPath(): string {
+  return path.resolve(process.env.AUDIT_LOG_PATH || path.join(process.cwd(), "data", "audit", "requests.jsonl"));
+}
+
+export function newAuditRecord(
+  route: AuditRecord["route"],
+  identity: string,
+  workspace: Workspace,
+  message: string,
+  sessionId: string | null = null,
+): AuditRecord {
+  return {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    route,
+    identity,
+    workspace,
+    session_id: sessionId,
+    message,
+    planner_output: [],
+    plan: null,
+    mcp_calls: [],
+    stages: {},
+    total_ms: 0,
+  };
+}
+
+// The record of the request being handled; planner and MCP calls deep in the pipeline add to it.
+const current = new AsyncLocalStorage<AuditRecord>();
+
+export function withAuditRecord<T>(record: AuditRecord, fn: () => T): T {
+  return current.run(record, fn);
+}
+
+export function auditPlannerOutput(raw: string) {
+  current.getStore()?.planner_output.push(raw);
+}
+
+export async function auditMcpCall<T>(
+  call: { endpoint: string; tool: string; query: string },
+  fn: () => Promise<T>,
+  rows?: (result: T) => number,
+): Promise<T> {
+  const record = current.getStore();
+  if (!record) return fn();
+  const start = Date.now();
+  try {
+    const result = await fn();
+    record.mcp_calls.push({ ...call, ...(rows ? { rows: rows(result) } : {}), ms: Date.now() - start });
+    return result;
+  } catch (e: unknown) {
+    record.mcp_calls.push({ ...call, ms: Date.now() - start, error: e instanceof Error ? e.message : String(e) });
+    throw e;
+  }
+}
+
+export async function appendAuditRecord(record: AuditRecord): Promise<void> {
+  const file = auditLogPath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, JSON.stringify(record) + "\n", "utf-8");
+}
+
+export type AuditQuery = {
+  identity?: string;
+  workspace?: Workspace;
+  // Case-insensitive substring of the message or of any MCP query.
+  text?: string;
+  since?: string;
+  until?: string;
+  errors_only?: boolean;
+  limit: number;
+};
+
+function matches(r: AuditRecord, q: AuditQuery): boolean {
+  if (q.identity && r.identity !== q.identity) return false;
+  if (q.workspace && r.workspace !== q.workspace) return false;
+  if (q.since && r.at < q.since) return false;
+  if (q.until && r.at > q.until) return false;
+  if (q.errors_only && !r.error && !r.mcp_calls.some((c) => c.error)) return false;
+  if (q.text) {
+    const t = q.text.toLowerCase();
+    if (!r.message.toLowerCase().includes(t) && !r.mcp_calls.some((c) => c.query.toLowerCase().includes(t))) return false;
+  }
+  return true;
+}
+
+// Newest matching records first; reads the file line by line and keeps only the last `limit`.
+export async function searchAuditLog(q: AuditQuery): Promise<AuditRecord[]> {
+  const out: AuditRecord[] = [];
+  const input = createReadStream(auditLogPath(), { encoding: "utf-8" });
+  try {
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) continue;
+      let r: AuditRecord;
+      try {
+        r = JSON.parse(line) as AuditRecord;
+      } catch {
+        continue;
+      }
+      if (!matches(r, q)) continue;
+      out.push(r);
+      if (out.length > q.limit) out.shift();
+    }
+  } catch (e: unknown) {
+    if ((e as { code?: unknown })?.code === "ENOENT") return [];
+    throw e;
+  }
+  return out.reverse();
+}
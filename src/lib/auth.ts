@@ -0,0 +1,75 @@
+import { createHash } from "node:crypto";
+import { oidcEnabled, readWebSession } from "@/lib/oidc";
+import { findTokenOwner, fullAccessIdentity, hasUsers, identityForGroups, type Identity } from "@/lib/user-store";
+
+// Callers are resolved to an Identity in this order: APP_ADMIN_TOKEN (break-glass admin), a bearer
+// token (a user token once the user store has users, else the shared APP_ACCESS_TOKEN), the SSO
+// session cookie, then anonymous access when no kind of sign-in is configured.
+
+function getRequiredAppToken(): string {
+  return String(process.env.APP_ACCESS_TOKEN || "").trim();
+}
+
+function getAdminToken(): string {
+  return String(process.env.APP_ADMIN_TOKEN || "").trim();
+}
+
+function extractBearerToken(req: Request): string {
+  const auth = String(req.headers.get("authorization") || "");
+  if (/^bearer\s+/i.test(auth)) return auth.replace(/^bearer\s+/i, "").trim();
+  const alt = String(req.headers.get("x-app-token") || "");
+  return alt.trim();
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export function forbidden(message: string): Response {
+  return jsonResponse({ error: message }, 403);
+}
+
+// Name of a shared-token caller in the audit log: a fingerprint of the token.
+function tokenIdentity(token: string): string {
+  return `token:${createHash("sha256").update(token).digest("hex").slice(0, 12)}`;
+}
+
+export type AuthResult = { ok: boolean; resp?: Response; identity?: Identity };
+
+export async function requireAuthIfConfigured(req: Request): Promise<AuthResult> {
+  const got = extractBearerToken(req);
+  const sso = oidcEnabled();
+  // login_url tells the client it can offer "Sign in with SSO".
+  const unauthorized = { ok: false, resp: jsonResponse({ error: "Unauthorized", ...(sso ? { login_url: "/api/auth/login" } : {}) }, 401) };
+
+  const admin = getAdminToken();
+  if (admin && got === admin) return { ok: true, identity: fullAccessIdentity("admin", true) };
+
+  const users = await hasUsers();
+  const required = getRequiredAppToken();
+  if (got && (users || required)) {
+    if (users) {
+      const identity = await findTokenOwner(got);
+      return identity ? { ok: true, identity } : unauthorized;
+    }
+    if (got === required) return { ok: true, identity: fullAccessIdentity(tokenIdentity(got)) };
+    return unauthorized;
+  }
+
+  const session = readWebSession(req);
+  if (session) return { ok: true, identity: identityForGroups(session.name, session.groups) };
+
+  if (sso || users || required) return unauthorized;
+  return { ok: true, identity: fullAccessIdentity("anonymous") };
+}
+
+// Admin-only routes (users, audit search, Splunk credentials, TLS status): APP_ADMIN_TOKEN or a user with an admin role.
+export async function requireAdmin(req: Request): Promise<AuthResult> {
+  const auth = await requireAuthIfConfigured(req);
+  if (!auth.ok) return auth;
+  if (!auth.identity!.admin) return { ok: false, resp: forbidden("Admin role required") };
+  return auth;
+}
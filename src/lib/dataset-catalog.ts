@@ -0,0 +1,165 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+// Catalog of Splunk datasets for the Security workspace: base search, typed fields and default
+// table columns. Filters, SPL templates and the planner prompt are derived from it; see
+// config/splunk-datasets.json.
+
+const FIELD_TYPES = ["exact", "fuzzy", "boolean", "multivalue"] as const;
+
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+const key = z.string().trim().min(1).max(128);
+
+const FieldSchema = z.strictObject({
+  // Field name after the base search (what SPL clauses reference).
+  name: key,
+  // Display name in result tables and drilldown labels; columns are renamed back to it.
+  label: key.optional(),
+  type: z.enum(FIELD_TYPES),
+  // Plan filter key, e.g. "severity_exact"; omit to make the field display-only.
+  filter: key.regex(/^[a-z][a-z0-9_]*$/, "Use snake_case filter keys").optional(),
+  aliases: z.array(key).optional(),
+  // exact: allowed values (matched case-insensitively). boolean: the value meaning "absent".
+  values: z.array(key).min(1).optional(),
+  empty_value: z.string().optional(),
+  // multivalue: separator inside the raw field, the shape of one token and whether tokens are lowercased.
+  separator: z.string().min(1).optional(),
+  token_pattern: z.string().optional(),
+  lowercase: z.boolean().optional(),
+  // Exposes the field to count_by under this key; `split` lets trends split by `values`.
+  group_by: key.regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "group_by keys must be SPL identifiers").optional(),
+  split: z.boolean().optional(),
+  description: z.string().trim().optional(),
+  // boolean: keywords that switch the filter on. multivalue: only keep tokens the user names.
+  mention: z.strictObject({ keywords: z.array(key).optional(), token_regex: z.string().optional() }).optional(),
+});
+
+const DatasetSchema = z.strictObject({
+  id: key.regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, '_' or '-'"),
+  label: key,
+  base_search: z.array(z.string().min(1)).min(1),
+  fields: z.array(FieldSchema).min(1),
+  columns: z.array(key).min(1),
+});
+
+const CatalogSchema = z.strictObject({
+  default_dataset: key,
+  datasets: z.array(DatasetSchema).min(1),
+});
+
+export type DatasetField = z.infer<typeof FieldSchema>;
+export type Dataset = z.infer<typeof DatasetSchema>;
+export type DatasetCatalog = z.infer<typeof CatalogSchema>;
+
+// What the client needs to pick a dataset and edit a plan for it (filter inputs, count_by fields, trend splits).
+export type DatasetSummary = {
+  id: string;
+  label: string;
+  filters: Array<{ key: string; label: string; type: FieldType; values?: string[] }>;
+  group_by: Array<{ key: string; label: string }>;
+  splits: Array<{ key: string; label: string }>;
+};
+
+function validRegex(src: string): boolean {
+  try {
+    new RegExp(src);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checkDataset(ds: Dataset): string[] {
+  const issues: string[] = [];
+  const where = `datasets.${ds.id}`;
+  const filters = new Set<string>();
+  const groups = new Set<string>();
+
+  for (const f of ds.fields) {
+    for (const k of [f.filter, ...(f.aliases ?? [])]) {
+      if (!k) continue;
+      if (filters.has(k)) issues.push(`${where}: filter key "${k}" is used twice`);
+      filters.add(k);
+    }
+    if (f.group_by) {
+      if (groups.has(f.group_by)) issues.push(`${where}: group_by "${f.group_by}" is used twice`);
+      groups.add(f.group_by);
+    }
+    if (f.type === "multivalue" && !f.separator) issues.push(`${where}.${f.name}: multivalue fields need a separator`);
+    if (f.split && (f.type !== "exact" || !f.values)) issues.push(`${where}.${f.name}: split needs an exact field with values`);
+    for (const re of [f.token_pattern, f.mention?.token_regex]) {
+      if (re !== undefined && !validRegex(re)) issues.push(`${where}.${f.name}: invalid regex ${re}`);
+    }
+  }
+  if (groups.size === 0) issues.push(`${where}: at least one field needs group_by`);
+  return issues;
+}
+
+export function datasetCatalogPath(): string {
+  return path.resolve(process.env.DATASET_CATALOG_PATH || path.join(process.cwd(), "config", "splunk-datasets.json"));
+}
+
+export function loadDatasetCatalog(file: string = datasetCatalogPath()): DatasetCatalog {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (e: unknown) {
+    throw new Error(`Cannot read dataset catalog ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const r = CatalogSchema.safeParse(raw);
+  const issues = r.success
+    ? r.data.datasets.flatMap(checkDataset)
+    : r.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+  if (r.success) {
+    const ids = r.data.datasets.map((d) => d.id);
+    if (new Set(ids).size !== ids.length) issues.push("datasets: duplicate id");
+    if (!ids.includes(r.data.default_dataset)) issues.push(`default_dataset: "${r.data.default_dataset}" is not a declared dataset`);
+  }
+  if (!r.success || issues.length > 0) {
+    throw new Error(`Invalid dataset catalog ${file}: ${issues.join("; ")}`);
+  }
+  return r.data;
+}
+
+// Loaded once per server process; restart to pick up catalog edits.
+let cached: DatasetCatalog | null = null;
+
+export function getDatasetCatalog(): DatasetCatalog {
+  if (!cached) cached = loadDatasetCatalog();
+  return cached;
+}
+
+export function findDataset(id: string): Dataset | null {
+  return getDatasetCatalog().datasets.find((d) => d.id === id) ?? null;
+}
+
+export function defaultDataset(): Dataset {
+  const cat = getDatasetCatalog();
+  return cat.datasets.find((d) => d.id === cat.default_dataset) ?? cat.datasets[0];
+}
+
+function summarize(ds: Dataset): DatasetSummary {
+  const filters = ds.fields.flatMap((f) =>
+    f.filter ? [{ key: f.filter, label: fieldLabel(f), type: f.type, ...(f.values ? { values: f.values } : {}) }] : [],
+  );
+  const group_by = ds.fields.flatMap((f) => (f.group_by ? [{ key: f.group_by, label: fieldLabel(f) }] : []));
+  const splits = ds.fields.flatMap((f) => (f.group_by && f.split && f.values ? [{ key: splitKey(f.group_by), label: fieldLabel(f) }] : []));
+  return { id: ds.id, label: ds.label, filters, group_by, splits };
+}
+
+export function listDatasets(): { default_dataset: string; datasets: DatasetSummary[] } {
+  const cat = getDatasetCatalog();
+  return { default_dataset: cat.default_dataset, datasets: cat.datasets.map(summarize) };
+}
+
+export function fieldLabel(field: DatasetField): string {
+  return field.label || field.name;
+}
+
+// Trend plans name a split field by its lowercased group_by key.
+export function splitKey(groupBy: string): string {
+  return groupBy.toLowerCase();
+}
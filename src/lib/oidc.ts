@@ -0,0 +1,258 @@
+import { createHash, createHmac, createPublicKey, randomBytes, timingSafeEqual, verify, type JsonWebKey } from "node:crypto";
+import { dispatcherFor } from "@/lib/tls-config";
+
+// SSO through the internal OIDC provider: authorization code flow with PKCE, then an httpOnly
+// session cookie signed with OIDC_SESSION_SECRET. Group claims pick roles via `groups` in
+// config/roles.json.
+
+export const SESSION_COOKIE = "aic_session";
+export const LOGIN_COOKIE = "aic_oidc";
+
+// The login round trip (state, nonce, PKCE verifier) must finish within this.
+const LOGIN_TTL_S = 600;
+const CLOCK_SKEW_S = 60;
+
+export type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string | null;
+  scopes: string;
+  groupsClaim: string;
+  nameClaim: string;
+  sessionHours: number;
+  secret: string;
+};
+
+export type WebSession = { name: string; groups: string[]; exp: number };
+
+export function oidcConfig(): OidcConfig | null {
+  const issuer = String(process.env.OIDC_ISSUER || "").trim().replace(/\/+$/, "");
+  const clientId = String(process.env.OIDC_CLIENT_ID || "").trim();
+  if (!issuer || !clientId) return null;
+
+  const secret = String(process.env.OIDC_SESSION_SECRET || "");
+  if (secret.length < 32) throw new Error("OIDC_SESSION_SECRET must be at least 32 characters when OIDC is enabled");
+  const hours = Number(process.env.OIDC_SESSION_HOURS);
+  return {
+    issuer,
+    clientId,
+    clientSecret: String(process.env.OIDC_CLIENT_SECRET || ""),
+    redirectUri: String(process.env.OIDC_REDIRECT_URI || "").trim() || null,
+    scopes: String(process.env.OIDC_SCOPES || "openid profile email").trim(),
+    groupsClaim: String(process.env.OIDC_GROUPS_CLAIM || "groups").trim(),
+    nameClaim: String(process.env.OIDC_NAME_CLAIM || "preferred_username").trim(),
+    sessionHours: Number.isFinite(hours) && hours > 0 ? Math.min(hours, 24 * 7) : 8,
+    secret,
+  };
+}
+
+export function oidcEnabled(): boolean {
+  return Boolean(String(process.env.OIDC_ISSUER || "").trim() && String(process.env.OIDC_CLIENT_ID || "").trim());
+}
+
+function b64url(buf: Buffer | string): string {
+  return Buffer.from(buf).toString("base64url");
+}
+
+// Signed (not encrypted) cookie values: base64url(JSON).base64url(HMAC-SHA256).
+function sign(payload: unknown, secret: string): string {
+  const body = b64url(JSON.stringify(payload));
+  return `${body}.${b64url(createHmac("sha256", secret).update(body).digest())}`;
+}
+
+function unsign<T>(value: string, secret: string): T | null {
+  const [body, mac] = value.split(".");
+  if (!body || !mac) return null;
+  const want = createHmac("sha256", secret).update(body).digest();
+  const got = Buffer.from(mac, "base64url");
+  if (got.length !== want.length || !timingSafeEqual(got, want)) return null;
+  try {
+    return JSON.parse(Buffer.from(body, "base64url").toString("utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function readCookie(req: Request, name: string): string | null {
+  for (const part of String(req.headers.get("cookie") || "").split(";")) {
+    const i = part.indexOf("=");
+    if (i > 0 && part.slice(0, i).trim() === name) return decodeURIComponent(part.slice(i + 1).trim());
+  }
+  return null;
+}
+
+export function cookieHeader(req: Request, name: string, value: string, maxAge: number, cookiePath = "/"): string {
+  const secure = new URL(req.url).protocol === "https:" ? "; Secure" : "";
+  return `${name}=${encodeURIComponent(value)}; Path=${cookiePath}; Max-Age=${maxAge}; HttpOnly; SameSite=Lax${secure}`;
+}
+
+let misconfigLogged = false;
+
+// The signed-in SSO user, or null (no cookie, bad signature, expired or OIDC off). A broken OIDC
+// setup only disables SSO sign-in: bearer-token and admin callers must keep working.
+export function readWebSession(req: Request): WebSession | null {
+  const raw = readCookie(req, SESSION_COOKIE);
+  if (!raw) return null;
+  let cfg: OidcConfig | null;
+  try {
+    cfg = oidcConfig();
+  } catch (e: unknown) {
+    if (!misconfigLogged) console.error(`[oidc] SSO sessions are ignored: ${e instanceof Error ? e.message : String(e)}`);
+    misconfigLogged = true;
+    return null;
+  }
+  if (!cfg) return null;
+  const s = unsign<WebSession>(raw, cfg.secret);
+  if (!s || typeof s.name !== "string" || !Array.isArray(s.groups) || !(s.exp > Date.now() / 1000)) return null;
+  return s;
+}
+
+export function webSessionCookie(req: Request, cfg: OidcConfig, name: string, groups: string[]): string {
+  const maxAge = Math.round(cfg.sessionHours * 3600);
+  const session: WebSession = { name, groups, exp: Math.floor(Date.now() / 1000) + maxAge };
+  return cookieHeader(req, SESSION_COOKIE, sign(session, cfg.secret), maxAge);
+}
+
+type Discovery = { issuer: string; authorization_endpoint: string; token_endpoint: string; jwks_uri: string; end_session_endpoint?: string };
+
+let discovery: { issuer: string; doc: Discovery } | null = null;
+let jwks: { uri: string; keys: Array<JsonWebKey & { kid?: string }> } | null = null;
+
+async function fetchJson(url: string, init?: RequestInit): Promise<unknown> {
+  const resp = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(10000),
+    // @ts-expect-error undici dispatcher is not yet in the standard fetch typings.
+    dispatcher: dispatcherFor(url),
+  });
+  const text = await resp.text();
+  if (!resp.ok) throw new Error(`OIDC HTTP ${resp.status} from ${url}: ${text.slice(0, 300)}`);
+  return JSON.parse(text);
+}
+
+export async function discover(cfg: OidcConfig): Promise<Discovery> {
+  if (discovery?.issuer === cfg.issuer) return discovery.doc;
+  const doc = (await fetchJson(`${cfg.issuer}/.well-known/openid-configuration`)) as Discovery;
+  if (doc?.issuer?.replace(/\/+$/, "") !== cfg.issuer) throw new Error(`OIDC discovery issuer mismatch: ${doc?.issuer}`);
+  for (const k of ["authorization_endpoint", "token_endpoint", "jwks_uri"] as const) {
+    if (typeof doc[k] !== "string") throw new Error(`OIDC discovery is missing ${k}`);
+  }
+  discovery = { issuer: cfg.issuer, doc };
+  return doc;
+}
+
+function redirectUri(req: Request, cfg: OidcConfig): string {
+  return cfg.redirectUri ?? new URL("/api/auth/callback", req.url).toString();
+}
+
+type LoginState = { state: string; nonce: string; verifier: string; return_to: string; exp: number };
+
+// Authorization URL plus the cookie that remembers state, nonce and the PKCE verifier.
+export async function beginLogin(req: Request, cfg: OidcConfig, returnTo: string): Promise<{ url: string; cookie: string }> {
+  const doc = await discover(cfg);
+  const tx: LoginState = {
+    state: b64url(randomBytes(16)),
+    nonce: b64url(randomBytes(16)),
+    verifier: b64url(randomBytes(32)),
+    return_to: returnTo,
+    exp: Math.floor(Date.now() / 1000) + LOGIN_TTL_S,
+  };
+  const url = new URL(doc.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: cfg.clientId,
+    redirect_uri: redirectUri(req, cfg),
+    scope: cfg.scopes,
+    state: tx.state,
+    nonce: tx.nonce,
+    code_challenge: b64url(createHash("sha256").update(tx.verifier).digest()),
+    code_challenge_method: "S256",
+  }).toString();
+  return { url: url.toString(), cookie: cookieHeader(req, LOGIN_COOKIE, sign(tx, cfg.secret), LOGIN_TTL_S, "/api/auth") };
+}
+
+async function signingKey(uri: string, kid: string | undefined): Promise<JsonWebKey> {
+  const find = () => jwks?.keys.find((k) => (kid ? k.kid === kid : true));
+  if (jwks?.uri !== uri || !find()) {
+    // Unknown kid: the provider may have rotated keys.
+    const doc = (await fetchJson(uri)) as { keys?: unknown };
+    jwks = { uri, keys: Array.isArray(doc?.keys) ? (doc.keys as Array<JsonWebKey & { kid?: string }>) : [] };
+  }
+  const key = find();
+  if (!key) throw new Error(`No OIDC signing key for kid ${kid ?? "(none)"}`);
+  return key;
+}
+
+const JWT_ALGS: Record<string, { hash: string; ec: boolean }> = {
+  RS256: { hash: "sha256", ec: false },
+  RS384: { hash: "sha384", ec: false },
+  RS512: { hash: "sha512", ec: false },
+  ES256: { hash: "sha256", ec: true },
+  ES384: { hash: "sha384", ec: true },
+};
+
+// Verifies the ID token's signature, issuer, audience, expiry and nonce; returns its claims.
+async function verifyIdToken(idToken: string, cfg: OidcConfig, doc: Discovery, nonce: string): Promise<Record<string, unknown>> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) throw new Error("Malformed ID token");
+  const header = JSON.parse(Buffer.from(parts[0], "base64url").toString("utf-8")) as { alg?: string; kid?: string };
+  const alg = JWT_ALGS[header.alg ?? ""];
+  if (!alg) throw new Error(`Unsupported ID token algorithm ${header.alg}`);
+
+  const key = createPublicKey({ key: await signingKey(doc.jwks_uri, header.kid), format: "jwk" });
+  const data = Buffer.from(`${parts[0]}.${parts[1]}`);
+  const sig = Buffer.from(parts[2], "base64url");
+  const ok = verify(alg.hash, data, alg.ec ? { key, dsaEncoding: "ieee-p1363" } : key, sig);
+  if (!ok) throw new Error("ID token signature is invalid");
+
+  const claims = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf-8")) as Record<string, unknown>;
+  const now = Date.now() / 1000;
+  const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (String(claims.iss ?? "").replace(/\/+$/, "") !== cfg.issuer) throw new Error("ID token issuer mismatch");
+  if (!aud.includes(cfg.clientId)) throw new Error("ID token audience mismatch");
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_S < now) throw new Error("ID token expired");
+  if (claims.nonce !== nonce) throw new Error("ID token nonce mismatch");
+  return claims;
+}
+
+// Handles the provider's redirect: checks state, redeems the code with the PKCE verifier and
+// returns who signed in plus where to send them.
+export async function finishLogin(
+  req: Request,
+  cfg: OidcConfig,
+): Promise<{ name: string; groups: string[]; returnTo: string }> {
+  const params = new URL(req.url).searchParams;
+  const error = params.get("error");
+  if (error) throw new Error(`OIDC provider error: ${error} ${params.get("error_description") ?? ""}`.trim());
+
+  const raw = readCookie(req, LOGIN_COOKIE);
+  const tx = raw ? unsign<LoginState>(raw, cfg.secret) : null;
+  if (!tx || !(tx.exp > Date.now() / 1000)) throw new Error("Login expired; start again");
+  if (params.get("state") !== tx.state) throw new Error("OIDC state mismatch");
+  const code = params.get("code");
+  if (!code) throw new Error("OIDC callback without code");
+
+  const doc = await discover(cfg);
+  const form = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri(req, cfg),
+    client_id: cfg.clientId,
+    code_verifier: tx.verifier,
+  });
+  if (cfg.clientSecret) form.set("client_secret", cfg.clientSecret);
+  const tokens = (await fetchJson(doc.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: form.toString(),
+  })) as { id_token?: unknown };
+  if (typeof tokens?.id_token !== "string") throw new Error("OIDC token response has no id_token");
+
+  const claims = await verifyIdToken(tokens.id_token, cfg, doc, tx.nonce);
+  const name = String(claims[cfg.nameClaim] ?? claims.email ?? claims.sub ?? "").trim();
+  if (!name) throw new Error("ID token has no user name");
+  const rawGroups = claims[cfg.groupsClaim];
+  const groups = (Array.isArray(rawGroups) ? rawGroups : typeof rawGroups === "string" ? [rawGroups] : []).map(String);
+  return { name: `sso:${name}`, groups, returnTo: tx.return_to };
+}
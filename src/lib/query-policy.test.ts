@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { buildFilterPipeline } from "@/lib/analysis";
+import type { Dataset } from "@/lib/dataset-catalog";
+import { checkQuery, DENIED_COMMANDS, type QueryPolicy } from "@/lib/query-policy";
+
+const policy: QueryPolicy = {
+  allowed_commands: ["search", "eval", "rename", "where", "stats", "sort", "head", "table", "fields", "timechart", "mvexpand"],
+  allowed_indexes: ["main"],
+  max_row_limit: 500,
+  max_time_range: "90d",
+};
+
+const ds: Dataset = {
+  id: "test",
+  label: "Test",
+  base_search: ["search index=main"],
+  fields: [
+    { name: "Severity", type: "exact", filter: "severity_exact", values: ["CRITICAL", "INFO"] },
+    { name: "Description", type: "fuzzy", filter: "description_like" },
+    { name: "Tags", type: "multivalue", filter: "tags_any", separator: "," },
+    { name: "Network", type: "boolean", filter: "has_network", empty_value: "-" },
+  ],
+  columns: ["Severity", "Description"],
+};
+
+function check(query: string, policyOverride: Partial<QueryPolicy> = {}) {
+  return checkQuery({ ...policy, ...policyOverride }, { query, earliest_time: "-24h", latest_time: "now", row_limit: 100 });
+}
+
+describe("checkQuery", () => {
+  it("allows a plain query", () => {
+    expect(check('search index=main | where Severity="CRITICAL" | stats count by Description | sort 0 -count | head 10')).toBeNull();
+  });
+
+  it.each(DENIED_COMMANDS)("rejects %s even when the policy lists it", (cmd) => {
+    expect(check(`search index=main | ${cmd} x`, { allowed_commands: [...policy.allowed_commands, cmd] })).toMatch(cmd);
+    expect(check(`search index=main | ${cmd.toUpperCase()} x`)).toMatch(cmd);
+    expect(check(`search index=main [ | ${cmd} x ]`)).toMatch(cmd);
+  });
+
+  it("allows savedsearch only where a catalog base search opens with it", () => {
+    const base = ['| savedsearch "Event_Table"', "| eval x=1"].join("\n");
+    const fromCatalog = (query: string) =>
+      checkQuery(policy, { query, earliest_time: "-24h", latest_time: "now", row_limit: 100 }, [base, "search index=main"]);
+    expect(fromCatalog(`${base}\n| stats count`)).toBeNull();
+    expect(check(`${base}\n| stats count`)).toMatch("savedsearch");
+    expect(fromCatalog('| savedsearch "Other"\n| stats count')).toMatch("savedsearch");
+    expect(fromCatalog(`${base}\n| savedsearch "Other"`)).toMatch("savedsearch");
+    expect(fromCatalog(`${base}\n| stats count [| savedsearch "Other" ]`)).toMatch("savedsearch");
+  });
+
+  it("rejects macros", () => {
+    expect(check("search index=main | `evil`")).toMatch("macros");
+    expect(check("search index=main `evil(1)` | stats count")).toMatch("macros");
+  });
+
+  it("ignores pipes, brackets and backticks inside quoted strings", () => {
+    expect(check('search index=main | where x="a | delete [ `m` ]"')).toBeNull();
+  });
+
+  it("keeps escaped quotes inside the string", () => {
+    expect(check('search index=main | where x="a\\" | delete \\""')).toBeNull();
+  });
+
+  it("catches a value that breaks out of its quotes", () => {
+    expect(check('search index=main | where x="a" | delete ""')).toMatch("delete");
+  });
+
+  it("rejects an unterminated string from a trailing backslash", () => {
+    expect(check('search index=main | where x="a\\"')).toMatch("unterminated");
+  });
+
+  it("allows a subsearch that opens with a pipe", () => {
+    expect(check("search index=main [| search index=main | fields x ] | stats count")).toBeNull();
+  });
+
+  it("rejects unbalanced subsearch brackets", () => {
+    expect(check("search index=main [ search index=main")).toMatch("unbalanced");
+    expect(check("search index=main ] | stats count")).toMatch("unbalanced");
+  });
+
+  it("checks index terms", () => {
+    expect(check("search index=secret")).toMatch('"secret"');
+    expect(check('search index = "secret"')).toMatch('"secret"');
+    expect(check("search index::secret")).toMatch('"secret"');
+    expect(check("search index IN (main, secret)")).toMatch("single index");
+    expect(check("search index=main [ search index=secret ]")).toMatch('"secret"');
+  });
+
+  it("rejects empty and malformed commands", () => {
+    expect(check("search index=main | | stats count")).toMatch("empty command");
+    expect(check("search index=main |")).toMatch("empty command");
+    expect(check("search index=main | x=1")).toMatch("malformed");
+  });
+
+  it("checks row limit and time range", () => {
+    expect(checkQuery(policy, { query: "search index=main", earliest_time: "-24h", latest_time: "now", row_limit: 501 })).toMatch("row_limit");
+    expect(checkQuery(policy, { query: "search index=main", earliest_time: "-91d", latest_time: "now", row_limit: 10 })).toMatch("longer");
+  });
+});
+
+describe("buildFilterPipeline", () => {
+  const adversarial = [
+    'a" | delete | search "',
+    'a\\" | delete | search \\"',
+    "trailing\\",
+    'x" OR 1=1 OR "',
+    "a | outputlookup evil.csv",
+    '"] | sendemail to=x [ search "',
+    "`evil_macro`",
+    "[ | collect index=secret ]",
+    "index=secret",
+    "line\nbreak | delete",
+  ];
+
+  type Filters = Record<string, string | boolean | string[]>;
+
+  function pipelineQuery(filters: Filters) {
+    return [...ds.base_search, ...buildFilterPipeline(ds, filters), "| stats count as value"].join("\n");
+  }
+
+  it.each(adversarial)("keeps %j inside quoted strings", (value) => {
+    const cases: Filters[] = [{ severity_exact: [value] }, { description_like: value }, { tags_any: [value, "ok"] }];
+    for (const filters of cases) {
+      expect(check(pipelineQuery(filters))).toBeNull();
+    }
+  });
+
+  it("builds the expected clauses", () => {
+    const lines = buildFilterPipeline(ds, { severity_exact: ["CRITICAL"], description_like: 'a"b\\', has_network: true });
+    expect(lines).toEqual(['| where in(Severity, "CRITICAL") AND like(Description, "%a\\"b\\\\%") AND Network!="-"']);
+  });
+
+  it("splits multivalue fields before matching", () => {
+    expect(buildFilterPipeline(ds, { tags_any: ["x"] })).toEqual(['| eval __tags=split(Tags, ",")', '| where (mvfind(__tags,"x")>=0)']);
+  });
+});
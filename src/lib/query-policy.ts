@@ -0,0 +1,207 @@
+import { promises as fs, readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { getDatasetCatalog } from "@/lib/dataset-catalog";
+import { checkTimeRange, parseSpan, rangeSeconds } from "@/lib/time-range";
+
+// Last check on every SPL query before it goes to Splunk: commands, indexes, row limit and time
+// range must be within config/query-policy.json. Rejections are appended to a JSONL audit file.
+
+// Commands that write data, reach outside Splunk or run SPL the policy cannot see (savedsearch,
+// like macros); the policy file cannot allow them. The one exception is a dataset base_search from
+// the catalog, which operators write and which may open with a saved search.
+export const DENIED_COMMANDS = ["savedsearch", "delete", "outputlookup", "outputcsv", "sendemail", "collect", "mcollect", "meventcollect", "script", "run", "sendalert"];
+
+const command = z.string().trim().toLowerCase().regex(/^[a-z][a-z0-9_]*$/, "Use plain SPL command names");
+
+const PolicySchema = z.strictObject({
+  allowed_commands: z.array(command).min(1),
+  // Indexes a query may name with index=...; empty means queries may not name any index.
+  allowed_indexes: z.array(z.string().trim().min(1)),
+  max_row_limit: z.number().int().min(1).max(50000),
+  // Longest earliest..latest window, as a span like "90d".
+  max_time_range: z.string().refine((s) => parseSpan(s) !== null, "Use a span like 30d or 12h"),
+});
+
+export type QueryPolicy = z.infer<typeof PolicySchema>;
+
+export type QueryRequest = { query: string; earliest_time: string; latest_time: string; row_limit: number };
+
+export function queryPolicyPath(): string {
+  return path.resolve(process.env.QUERY_POLICY_PATH || path.join(process.cwd(), "config", "query-policy.json"));
+}
+
+export function loadQueryPolicy(file: string = queryPolicyPath()): QueryPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (e: unknown) {
+    throw new Error(`Cannot read query policy ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const r = PolicySchema.safeParse(raw);
+  const issues = r.success
+    ? r.data.allowed_commands.filter((c) => DENIED_COMMANDS.includes(c)).map((c) => `allowed_commands: "${c}" can never be allowed`)
+    : r.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+  if (!r.success || issues.length > 0) {
+    throw new Error(`Invalid query policy ${file}: ${issues.join("; ")}`);
+  }
+  return r.data;
+}
+
+// Loaded once per server process; restart to pick up policy edits.
+let cached: QueryPolicy | null = null;
+
+export function getQueryPolicy(): QueryPolicy {
+  if (!cached) cached = loadQueryPolicy();
+  return cached;
+}
+
+type Token = { kind: "word" | "string"; text: string } | { kind: "pipe" | "open" | "close" };
+
+// Splits SPL into words, quoted strings, pipes and subsearch brackets; null on an unterminated string.
+function tokenize(spl: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < spl.length) {
+    const c = spl[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "|") {
+      tokens.push({ kind: "pipe" });
+      i++;
+    } else if (c === "[") {
+      tokens.push({ kind: "open" });
+      i++;
+    } else if (c === "]") {
+      tokens.push({ kind: "close" });
+      i++;
+    } else if (c === '"') {
+      let text = "";
+      i++;
+      while (i < spl.length && spl[i] !== '"') {
+        if (spl[i] === "\\") i++;
+        text += spl[i] ?? "";
+        i++;
+      }
+      if (i >= spl.length) return null;
+      tokens.push({ kind: "string", text });
+      i++;
+    } else {
+      let text = "";
+      while (i < spl.length && !/[\s|[\]"]/.test(spl[i])) text += spl[i++];
+      tokens.push({ kind: "word", text });
+    }
+  }
+  return tokens;
+}
+
+// Index named by an index term starting at tokens[i], or null if tokens[i] is not one.
+// Returns "" when the term is there but its value cannot be read (e.g. index IN (...)).
+function indexTerm(tokens: Token[], i: number): string | null {
+  const t = tokens[i];
+  if (t.kind !== "word") return null;
+  const m = /^index(=|::)?(.*)$/i.exec(t.text);
+  if (!m) return null;
+  if (m[2]) return m[2];
+  const next = tokens[i + 1];
+  const after = tokens[i + 2];
+  if (m[1]) return next?.kind === "string" || next?.kind === "word" ? next.text : "";
+  // "index = main" / 'index = "main"'; a bare word "index" elsewhere is left alone.
+  if (next?.kind === "word" && /^(=|::)/.test(next.text)) {
+    const rest = next.text.replace(/^(=|::)/, "");
+    if (rest) return rest;
+    return after?.kind === "string" || after?.kind === "word" ? after.text : "";
+  }
+  if (next?.kind === "word" && /^in$/i.test(next.text)) return "";
+  return null;
+}
+
+function opensWithSavedSearch(spl: string): boolean {
+  return /^\s*\|\s*savedsearch\s/i.test(spl);
+}
+
+// Reason the query breaks the policy, or null when it may run. `baseSearches` are the catalog's
+// base searches (joined lines); a query starting with one of them may open with its savedsearch.
+export function checkQuery(policy: QueryPolicy, req: QueryRequest, baseSearches: string[] = []): string | null {
+  if (!Number.isInteger(req.row_limit) || req.row_limit < 1 || req.row_limit > policy.max_row_limit) {
+    return `row_limit ${req.row_limit} is outside 1..${policy.max_row_limit}`;
+  }
+  const timeIssue = checkTimeRange(req.earliest_time, req.latest_time);
+  if (timeIssue) return timeIssue;
+  const range = rangeSeconds(req.earliest_time, req.latest_time) ?? Infinity;
+  if (range > parseSpan(policy.max_time_range)!) return `time range ${req.earliest_time}..${req.latest_time} is longer than ${policy.max_time_range}`;
+
+  const tokens = tokenize(req.query);
+  if (!tokens) return "unterminated quoted string";
+  // Macros expand to SPL we cannot see.
+  if (tokens.some((t) => t.kind === "word" && t.text.includes("`"))) return "macros are not allowed";
+
+  const fromCatalog = baseSearches.some((b) => opensWithSavedSearch(b) && (req.query === b || req.query.startsWith(`${b}\n`)));
+
+  let depth = 0;
+  // A command name follows the start of the query, a pipe or a subsearch bracket; a search
+  // expression there instead (e.g. "index=main") is an implicit search.
+  let expectCommand = true;
+  let afterPipe = true;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.kind === "pipe" || t.kind === "open") {
+      if (t.kind === "open") depth++;
+      // A pipe may open the query or a subsearch ("[| inputlookup ...]"), not follow another pipe.
+      if (expectCommand && t.kind === "pipe" && i > 0 && tokens[i - 1].kind !== "open") return "empty command";
+      expectCommand = true;
+      afterPipe = t.kind === "pipe";
+      continue;
+    }
+    if (t.kind === "close") {
+      if (--depth < 0) return "unbalanced subsearch brackets";
+      expectCommand = false;
+      continue;
+    }
+
+    const index = indexTerm(tokens, i);
+    if (index !== null) {
+      if (!index) return "index terms must name a single index";
+      if (!policy.allowed_indexes.includes(index)) return `index "${index}" is not allowed`;
+    }
+
+    if (expectCommand) {
+      expectCommand = false;
+      const name = t.kind === "word" && /^[a-z][a-z0-9_]*$/i.test(t.text) ? t.text.toLowerCase() : null;
+      if (name && index === null) {
+        if (name === "savedsearch" && fromCatalog && i === 1) continue;
+        if (DENIED_COMMANDS.includes(name) || !policy.allowed_commands.includes(name)) return `command "${name}" is not allowed`;
+        continue;
+      }
+      if (afterPipe && i > 0) return "malformed command after |";
+      if (!policy.allowed_commands.includes("search")) return 'command "search" is not allowed';
+    }
+  }
+  if (depth !== 0) return "unbalanced subsearch brackets";
+  if (expectCommand) return "empty command";
+  return null;
+}
+
+export function queryAuditPath(): string {
+  return path.resolve(process.env.QUERY_AUDIT_PATH || path.join(process.cwd(), "data", "audit", "rejected-queries.jsonl"));
+}
+
+async function auditRejection(req: QueryRequest, reason: string): Promise<void> {
+  const file = queryAuditPath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, JSON.stringify({ at: new Date().toISOString(), reason, ...req }) + "\n", "utf-8");
+}
+
+// Throws when the query breaks the policy, after recording it in the audit file.
+export async function enforceQueryPolicy(req: QueryRequest): Promise<void> {
+  const baseSearches = getDatasetCatalog().datasets.map((d) => d.base_search.join("\n"));
+  const reason = checkQuery(getQueryPolicy(), req, baseSearches);
+  if (!reason) return;
+  try {
+    await auditRejection(req, reason);
+  } catch (e: unknown) {
+    throw new Error(`Query rejected by policy: ${reason} (audit log failed: ${e instanceof Error ? e.message : String(e)})`);
+  }
+  throw new Error(`Query rejected by policy: ${reason}`);
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { acquireTurnSlot, turnQueueIssue } from "@/lib/rate-limit";
+
+describe("acquireTurnSlot", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubEnv("CHAT_RATE_PER_MINUTE", "60");
+    vi.stubEnv("CHAT_MAX_STREAMS_PER_USER", "1");
+    vi.stubEnv("CHAT_QUEUE_PER_USER", "2");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("queues turns over the stream cap and reports their positions", async () => {
+    const signal = new AbortController().signal;
+    const release = await acquireTurnSlot("streams", signal, () => undefined);
+
+    const positions: number[][] = [[], []];
+    const second = acquireTurnSlot("streams", signal, (p) => positions[0].push(p));
+    const third = acquireTurnSlot("streams", signal, (p) => positions[1].push(p));
+    expect(positions).toEqual([[1], [2]]);
+    expect(turnQueueIssue("streams")?.message).toMatch("Too many requests queued");
+    await expect(acquireTurnSlot("streams", signal, () => undefined)).rejects.toThrow("Too many requests queued");
+
+    release();
+    (await second)();
+    expect(positions[1]).toEqual([2, 1]);
+    (await third)();
+    expect(turnQueueIssue("streams")).toBeNull();
+  });
+
+  it("waits for the rate limit to refill instead of refusing", async () => {
+    vi.stubEnv("CHAT_RATE_PER_MINUTE", "1");
+    vi.stubEnv("CHAT_MAX_STREAMS_PER_USER", "5");
+    const signal = new AbortController().signal;
+    (await acquireTurnSlot("rate", signal, () => undefined))();
+
+    let granted = false;
+    const next = acquireTurnSlot("rate", signal, () => undefined).then((release) => {
+      granted = true;
+      release();
+    });
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(31000);
+    await next;
+    expect(granted).toBe(true);
+  });
+
+  it("drops a waiter whose request is aborted", async () => {
+    const signal = new AbortController().signal;
+    const release = await acquireTurnSlot("abort", signal, () => undefined);
+    const ctl = new AbortController();
+    const waiting = acquireTurnSlot("abort", ctl.signal, () => undefined);
+    const positions: number[] = [];
+    const later = acquireTurnSlot("abort", signal, (p) => positions.push(p));
+    ctl.abort();
+    await expect(waiting).rejects.toBeDefined();
+    expect(positions).toEqual([2, 1]);
+    release();
+    (await later)();
+  });
+});
@@ -0,0 +1,171 @@
+// Throttling for the shared backends: a per-identity request rate and stream cap for /api/chat,
+// /api/run and /api/panel, and one global FIFO queue in front of the LLM. State is per server process.
+
+function envInt(name: string, lo: number, hi: number, dflt: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) ? Math.min(hi, Math.max(lo, Math.floor(n))) : dflt;
+}
+
+type Waiter = { grant: () => void; onQueued: (position: number) => void };
+
+// Per identity: a token bucket of CHAT_RATE_PER_MINUTE turns (refilled continuously) and at most
+// CHAT_MAX_STREAMS_PER_USER open at once. Turns over either limit wait in that user's queue.
+type UserState = { tokens: number; updated: number; open: number; waiters: Waiter[]; timer: ReturnType<typeof setTimeout> | null };
+const users = new Map<string, UserState>();
+
+function turnLimits() {
+  return {
+    perMinute: envInt("CHAT_RATE_PER_MINUTE", 1, 600, 20),
+    maxStreams: envInt("CHAT_MAX_STREAMS_PER_USER", 1, 20, 2),
+    maxQueued: envInt("CHAT_QUEUE_PER_USER", 0, 100, 5),
+  };
+}
+
+function userState(identity: string): UserState {
+  let u = users.get(identity);
+  if (!u) {
+    if (users.size > 10000) {
+      const { perMinute } = turnLimits();
+      for (const [k, v] of users) if (v.open === 0 && v.waiters.length === 0 && !v.timer && v.tokens >= perMinute) users.delete(k);
+    }
+    u = { tokens: turnLimits().perMinute, updated: Date.now(), open: 0, waiters: [], timer: null };
+    users.set(identity, u);
+  }
+  return u;
+}
+
+// Takes a token and a stream if both are free.
+function tryStart(u: UserState): boolean {
+  const { perMinute, maxStreams } = turnLimits();
+  if (u.open >= maxStreams) return false;
+  const now = Date.now();
+  u.tokens = Math.min(perMinute, u.tokens + ((now - u.updated) * perMinute) / 60000);
+  u.updated = now;
+  if (u.tokens < 1) return false;
+  u.tokens -= 1;
+  u.open += 1;
+  return true;
+}
+
+// Grants waiting turns in order; when only tokens are short, tries again once the next one is due.
+function pumpTurns(u: UserState) {
+  let granted = false;
+  while (u.waiters.length > 0 && tryStart(u)) {
+    u.waiters.shift()!.grant();
+    granted = true;
+  }
+  if (granted) u.waiters.forEach((w, i) => w.onQueued(i + 1));
+  const { perMinute, maxStreams } = turnLimits();
+  if (u.waiters.length > 0 && u.open < maxStreams && !u.timer) {
+    u.timer = setTimeout(() => {
+      u.timer = null;
+      pumpTurns(u);
+    }, Math.ceil(((1 - u.tokens) * 60000) / perMinute));
+  }
+}
+
+// Why a new turn cannot even be queued (the user's queue is full), or null.
+export function turnQueueIssue(identity: string): { message: string; retryAfter: number } | null {
+  const { maxStreams, maxQueued } = turnLimits();
+  const u = users.get(identity);
+  // With nobody waiting and a stream free, the turn at most waits for a token.
+  if (!u || u.waiters.length < maxQueued || (u.waiters.length === 0 && u.open < maxStreams)) return null;
+  return { message: `Too many requests queued (${u.waiters.length}); wait for one to finish`, retryAfter: 5 };
+}
+
+// Resolves with a release function once the user may start another turn; onQueued gets the
+// 1-based position in the user's queue whenever it changes while waiting.
+export function acquireTurnSlot(identity: string, signal: AbortSignal, onQueued: (position: number) => void): Promise<() => void> {
+  signal.throwIfAborted();
+  const u = userState(identity);
+  const once = () => {
+    let done = false;
+    return () => {
+      if (done) return;
+      done = true;
+      u.open -= 1;
+      pumpTurns(u);
+    };
+  };
+  if (u.waiters.length === 0 && tryStart(u)) return Promise.resolve(once());
+  const issue = turnQueueIssue(identity);
+  if (issue) return Promise.reject(new Error(issue.message));
+
+  return new Promise((resolve, reject) => {
+    const waiter: Waiter = {
+      grant: () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(once());
+      },
+      onQueued,
+    };
+    const onAbort = () => {
+      const i = u.waiters.indexOf(waiter);
+      if (i >= 0) u.waiters.splice(i, 1);
+      u.waiters.forEach((w, j) => w.onQueued(j + 1));
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    u.waiters.push(waiter);
+    onQueued(u.waiters.length);
+    pumpTurns(u);
+  });
+}
+
+// Global LLM queue: at most LLM_CONCURRENCY planner/explainer calls at once, the rest wait in order.
+const waiters: Waiter[] = [];
+let active = 0;
+
+function notifyPositions() {
+  waiters.forEach((w, i) => w.onQueued(i + 1));
+}
+
+function releaseSlot() {
+  active -= 1;
+  const next = waiters.shift();
+  if (next) {
+    active += 1;
+    next.grant();
+    notifyPositions();
+  }
+}
+
+// Resolves with a release function once a slot is free; onQueued gets the 1-based position
+// whenever it changes while waiting.
+export function acquireLlmSlot(signal: AbortSignal, onQueued: (position: number) => void): Promise<() => void> {
+  signal.throwIfAborted();
+  const once = () => {
+    let done = false;
+    return () => {
+      if (done) return;
+      done = true;
+      releaseSlot();
+    };
+  };
+  if (active < envInt("LLM_CONCURRENCY", 1, 32, 2)) {
+    active += 1;
+    return Promise.resolve(once());
+  }
+  if (waiters.length >= envInt("LLM_QUEUE_MAX", 1, 1000, 50)) {
+    return Promise.reject(new Error("The LLM queue is full; try again shortly"));
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter: Waiter = {
+      grant: () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(once());
+      },
+      onQueued,
+    };
+    const onAbort = () => {
+      const i = waiters.indexOf(waiter);
+      if (i >= 0) waiters.splice(i, 1);
+      notifyPositions();
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    waiters.push(waiter);
+    onQueued(waiters.length);
+  });
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { canUseWorkspace, type Identity } from "@/lib/user-store";
+
+export type Workspace = "security" | "observability";
+
+export type SessionTurn = {
+  id: string;
+  created_at: string;
+  workspace: Workspace;
+  user: string;
+  plan: unknown;
+  // How the plan was produced: { source, warnings } from the plan_info event.
+  plan_info?: unknown;
+  panels: unknown[];
+  // panel_error events: queries that failed while the rest of the turn went on.
+  panel_errors?: unknown[];
+  markdown: string;
+  llm_ok?: boolean;
+  // Re-run of a stored plan (/api/run): `user` repeats the original question, no planner call.
+  rerun?: boolean;
+  // The user stopped the turn (or disconnected) before it finished.
+  cancelled?: boolean;
+};
+
+// Canvas grid position of one panel (react-grid-layout units); `static` marks a pinned panel.
+export type CanvasLayoutItem = { i: string; x: number; y: number; w: number; h: number; static?: boolean };
+
+export type Session = {
+  id: string;
+  title: string;
+  workspace: Workspace;
+  // Identity name of the creator; sessions from before owners existed have none and only admins see them.
+  owner?: string;
+  created_at: string;
+  updated_at: string;
+  turns: SessionTurn[];
+  layout?: CanvasLayoutItem[];
+};
+
+export type SessionSummary = Omit<Session, "turns" | "layout"> & { turn_count: number };
+
+const SESSION_ID_RE = /^[a-zA-Z0-9_-]{1,64}$/;
+const TITLE_MAX_CHARS = 120;
+const LAYOUT_MAX_ITEMS = 200;
+const LAYOUT_COLS = 12;
+
+function storeDir(): string {
+  return path.resolve(process.env.SESSION_STORE_DIR || path.join(process.cwd(), "data", "sessions"));
+}
+
+function sessionPath(id: string): string {
+  if (!SESSION_ID_RE.test(id)) throw new Error("Invalid session id");
+  return path.join(storeDir(), `${id}.json`);
+}
+
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === "string" && SESSION_ID_RE.test(id);
+}
+
+export function cleanTitle(raw: unknown, dflt: string): string {
+  const t = String(raw ?? "").replace(/\s+/g, " ").trim();
+  return (t || dflt).slice(0, TITLE_MAX_CHARS);
+}
+
+function gridInt(v: unknown, lo: number, hi: number): number | null {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return null;
+  return Math.min(hi, Math.max(lo, Math.floor(n)));
+}
+
+export function normalizeLayout(raw: unknown): CanvasLayoutItem[] | null {
+  if (!Array.isArray(raw)) return null;
+  const out: CanvasLayoutItem[] = [];
+  for (const item of raw.slice(0, LAYOUT_MAX_ITEMS)) {
+    if (!item || typeof item !== "object") continue;
+    const o = item as Record<string, unknown>;
+    if (typeof o.i !== "string" || !o.i || o.i.length > 128) continue;
+    const x = gridInt(o.x, 0, LAYOUT_COLS - 1);
+    const y = gridInt(o.y, 0, 10000);
+    const w = gridInt(o.w, 1, LAYOUT_COLS);
+    const h = gridInt(o.h, 1, 100);
+    if (x == null || y == null || w == null || h == null) continue;
+    out.push(o.static === true ? { i: o.i, x, y, w, h, static: true } : { i: o.i, x, y, w, h });
+  }
+  return out;
+}
+
+// Serialize read-modify-write per session so concurrent turns do not clobber each other.
+const locks = new Map<string, Promise<unknown>>();
+
+function withSessionLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(id) ?? Promise.resolve();
+  const next = prev.then(fn, fn);
+  const tail = next.catch(() => undefined);
+  locks.set(id, tail);
+  tail.then(() => {
+    if (locks.get(id) === tail) locks.delete(id);
+  });
+  return next;
+}
+
+async function readSession(id: string): Promise<Session | null> {
+  try {
+    const text = await fs.readFile(sessionPath(id), "utf-8");
+    return JSON.parse(text) as Session;
+  } catch (e: unknown) {
+    if ((e as { code?: unknown })?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+// Owners see their own sessions and admins everyone's, in either case only in workspaces their role allows.
+function canAccess(s: Session, who: Identity): boolean {
+  return (who.admin || s.owner === who.name) && canUseWorkspace(who, s.workspace);
+}
+
+async function writeSession(session: Session): Promise<void> {
+  await fs.mkdir(storeDir(), { recursive: true });
+  const file = sessionPath(session.id);
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(session), "utf-8");
+  await fs.rename(tmp, file);
+}
+
+function summarize(s: Session): SessionSummary {
+  return {
+    id: s.id,
+    title: s.title,
+    workspace: s.workspace,
+    ...(s.owner ? { owner: s.owner } : {}),
+    created_at: s.created_at,
+    updated_at: s.updated_at,
+    turn_count: s.turns.length,
+  };
+}
+
+export async function listSessions(who: Identity, workspace?: Workspace): Promise<SessionSummary[]> {
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(storeDir());
+  } catch (e: unknown) {
+    if ((e as { code?: unknown })?.code === "ENOENT") return [];
+    throw e;
+  }
+
+  const out: SessionSummary[] = [];
+  for (const f of files) {
+    if (!f.endsWith(".json")) continue;
+    const s = await readSession(f.slice(0, -5)).catch(() => null);
+    if (!s || !canAccess(s, who)) continue;
+    if (workspace && s.workspace !== workspace) continue;
+    out.push(summarize(s));
+  }
+  return out.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+export async function getSession(id: string, who: Identity): Promise<Session | null> {
+  if (!isValidSessionId(id)) return null;
+  const s = await readSession(id);
+  return s && canAccess(s, who) ? s : null;
+}
+
+export async function createSession(workspace: Workspace, title: string, owner: string): Promise<Session> {
+  const now = new Date().toISOString();
+  const session: Session = {
+    id: randomUUID(),
+    title: cleanTitle(title, "Untitled investigation"),
+    workspace,
+    owner,
+    created_at: now,
+    updated_at: now,
+    turns: [],
+  };
+  await writeSession(session);
+  return session;
+}
+
+export async function updateSession(
+  id: string,
+  who: Identity,
+  patch: { title?: string; layout?: CanvasLayoutItem[] },
+): Promise<Session | null> {
+  if (!isValidSessionId(id)) return null;
+  return withSessionLock(id, async () => {
+    const s = await readSession(id);
+    if (!s || !canAccess(s, who)) return null;
+    if (patch.title !== undefined) s.title = cleanTitle(patch.title, s.title);
+    if (patch.layout !== undefined) s.layout = patch.layout;
+    s.updated_at = new Date().toISOString();
+    await writeSession(s);
+    return s;
+  });
+}
+
+export async function deleteSession(id: string, who: Identity): Promise<boolean> {
+  if (!isValidSessionId(id)) return false;
+  return withSessionLock(id, async () => {
+    const s = await readSession(id);
+    if (!s || !canAccess(s, who)) return false;
+    try {
+      await fs.unlink(sessionPath(id));
+      return true;
+    } catch (e: unknown) {
+      if ((e as { code?: unknown })?.code === "ENOENT") return false;
+      throw e;
+    }
+  });
+}
+
+export async function appendSessionTurn(
+  id: string,
+  who: Identity,
+  turn: Omit<SessionTurn, "id" | "created_at">,
+): Promise<boolean> {
+  if (!isValidSessionId(id)) return false;
+  return withSessionLock(id, async () => {
+    const s = await readSession(id);
+    if (!s || !canAccess(s, who)) return false;
+    const now = new Date().toISOString();
+    s.turns.push({ id: randomUUID(), created_at: now, ...turn });
+    s.updated_at = now;
+    await writeSession(s);
+    return true;
+  });
+}
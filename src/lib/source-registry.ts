@@ -0,0 +1,129 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+// Declarative registry of observability MCP sources. The planner whitelist, the planner prompt and
+// the keyword intent table are all derived from this file; see config/observability-sources.json.
+
+const VIZ = ["line", "network"] as const;
+const PARSERS = ["grafana_frames", "hubble_flows", "ndi_anomalies"] as const;
+
+export type ObservabilityViz = (typeof VIZ)[number];
+// How a tool result is turned into panel data; each parser is implemented in src/lib/analysis.ts.
+export type SourceParser = (typeof PARSERS)[number];
+
+const key = z.string().trim().min(1).max(128);
+
+const ComboSchema = z.strictObject({
+  target: key,
+  metric: key,
+  mock_values: z.array(z.number().finite()).max(240).optional(),
+});
+
+const ToolSchema = z.strictObject({
+  name: key,
+  viz: z.enum(VIZ),
+  parser: z.enum(PARSERS),
+  target_arg: key,
+  combos: z.array(ComboSchema).min(1),
+});
+
+const SourceSchema = z.strictObject({
+  id: key.regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, '_' or '-'"),
+  label: key,
+  endpoint_env: key,
+  token_env: key.optional(),
+  tools: z.array(ToolSchema).min(1),
+});
+
+const IntentRequestSchema = z.strictObject({
+  mcp: key,
+  tool: key,
+  target: key,
+  metric: key,
+  title: z.strictObject({ en: key, zh: key }),
+});
+
+const IntentSchema = z.strictObject({
+  id: key,
+  keywords: z.array(key).min(1),
+  guidance: z.string().trim().optional(),
+  requests: z.array(IntentRequestSchema).min(1).max(3),
+});
+
+const RegistrySchema = z.strictObject({
+  times: z.array(key.regex(/^-\d+[mhd]$/, "Use relative times like -15m")).min(1),
+  sources: z.array(SourceSchema).min(1),
+  intents: z.array(IntentSchema),
+  default_intent: key,
+});
+
+export type SourceCombo = z.infer<typeof ComboSchema>;
+export type SourceTool = z.infer<typeof ToolSchema>;
+export type McpSource = z.infer<typeof SourceSchema>;
+export type SourceIntent = z.infer<typeof IntentSchema>;
+export type SourceRegistry = z.infer<typeof RegistrySchema>;
+
+export type SourceSelector = { mcp: string; tool: string; target: string; metric: string; viz?: string };
+export type SourceMatch = { source: McpSource; tool: SourceTool; combo: SourceCombo };
+
+export function findSourceCombo(reg: SourceRegistry, sel: SourceSelector): SourceMatch | null {
+  const source = reg.sources.find((s) => s.id === sel.mcp);
+  const tool = source?.tools.find((t) => t.name === sel.tool);
+  if (!source || !tool) return null;
+  if (sel.viz !== undefined && sel.viz !== tool.viz) return null;
+  const combo = tool.combos.find((c) => c.target === sel.target && c.metric === sel.metric);
+  return combo ? { source, tool, combo } : null;
+}
+
+function checkReferences(reg: SourceRegistry): string[] {
+  const issues: string[] = [];
+  const ids = new Set<string>();
+  for (const s of reg.sources) {
+    if (ids.has(s.id)) issues.push(`sources: duplicate id "${s.id}"`);
+    ids.add(s.id);
+    for (const t of s.tools) {
+      if (t.viz === "line" && t.parser !== "grafana_frames") issues.push(`${s.id}.${t.name}: line tools need the grafana_frames parser`);
+      if (t.viz === "network" && t.parser === "grafana_frames") issues.push(`${s.id}.${t.name}: network tools need a topology parser`);
+    }
+  }
+  for (const intent of reg.intents) {
+    for (const r of intent.requests) {
+      if (!findSourceCombo(reg, r)) issues.push(`intents.${intent.id}: ${r.mcp}/${r.tool}/${r.target}/${r.metric} is not a registered combo`);
+    }
+  }
+  if (!reg.intents.some((i) => i.id === reg.default_intent)) {
+    issues.push(`default_intent: "${reg.default_intent}" is not a declared intent`);
+  }
+  return issues;
+}
+
+export function sourceRegistryPath(): string {
+  return path.resolve(process.env.SOURCE_REGISTRY_PATH || path.join(process.cwd(), "config", "observability-sources.json"));
+}
+
+export function loadSourceRegistry(file: string = sourceRegistryPath()): SourceRegistry {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (e: unknown) {
+    throw new Error(`Cannot read source registry ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const r = RegistrySchema.safeParse(raw);
+  const issues = r.success
+    ? checkReferences(r.data)
+    : r.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+  if (!r.success || issues.length > 0) {
+    throw new Error(`Invalid source registry ${file}: ${issues.join("; ")}`);
+  }
+  return r.data;
+}
+
+// Loaded once per server process; restart to pick up registry edits.
+let cached: SourceRegistry | null = null;
+
+export function getSourceRegistry(): SourceRegistry {
+  if (!cached) cached = loadSourceRegistry();
+  return cached;
+}
@@ -0,0 +1,148 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { forbidden, jsonResponse } from "@/lib/auth";
+import type { Workspace } from "@/lib/session-store";
+import type { Identity } from "@/lib/user-store";
+
+// Per-user Splunk MCP tokens, so Splunk's own index permissions apply to each app user. Enabled by
+// SPLUNK_CREDENTIALS_KEY; the shared SPLUNK_MCP_TOKEN is then never used. Tokens are stored
+// AES-256-GCM encrypted in data/splunk-credentials.json, keyed by "user:<name>" or "role:<id>".
+
+type Sealed = { iv: string; tag: string; data: string };
+type CredentialFile = { credentials: Array<{ subject: string; token: Sealed; updated_at: string }> };
+
+export const SUBJECT_RE = /^(user|role):[a-zA-Z0-9._@:-]{1,80}$/;
+
+function encryptionKey(): Buffer | null {
+  const raw = String(process.env.SPLUNK_CREDENTIALS_KEY || "").trim();
+  if (!raw) return null;
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+  if (key.length !== 32) throw new Error("SPLUNK_CREDENTIALS_KEY must be 32 bytes (64 hex characters or base64)");
+  return key;
+}
+
+export function splunkCredentialsEnabled(): boolean {
+  return encryptionKey() !== null;
+}
+
+function requireKey(): Buffer {
+  const key = encryptionKey();
+  if (!key) throw new Error("Per-user Splunk credentials are disabled (set SPLUNK_CREDENTIALS_KEY)");
+  return key;
+}
+
+// The subject is bound as associated data, so a sealed token cannot be moved to another user.
+function seal(token: string, subject: string, key: Buffer): Sealed {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(subject));
+  const data = Buffer.concat([cipher.update(token, "utf-8"), cipher.final()]);
+  return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") };
+}
+
+function unseal(s: Sealed, subject: string, key: Buffer): string {
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(s.iv, "base64"));
+  decipher.setAAD(Buffer.from(subject));
+  decipher.setAuthTag(Buffer.from(s.tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(s.data, "base64")), decipher.final()]).toString("utf-8");
+}
+
+function storePath(): string {
+  return path.resolve(process.env.SPLUNK_CREDENTIALS_PATH || path.join(process.cwd(), "data", "splunk-credentials.json"));
+}
+
+async function readCredentials(): Promise<CredentialFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(storePath(), "utf-8")) as CredentialFile;
+    return Array.isArray(parsed?.credentials) ? parsed : { credentials: [] };
+  } catch (e: unknown) {
+    if ((e as { code?: unknown })?.code === "ENOENT") return { credentials: [] };
+    throw e;
+  }
+}
+
+async function writeCredentials(data: CredentialFile): Promise<void> {
+  const file = storePath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), { encoding: "utf-8", mode: 0o600 });
+  await fs.rename(tmp, file);
+}
+
+// Serialize read-modify-write of the credential file.
+let lock: Promise<unknown> = Promise.resolve();
+
+function withCredentialLock<T>(fn: (data: CredentialFile) => Promise<T>): Promise<T> {
+  const next = lock.then(async () => fn(await readCredentials()));
+  lock = next.catch(() => undefined);
+  return next;
+}
+
+export async function listCredentialSubjects(): Promise<Array<{ subject: string; updated_at: string }>> {
+  return (await readCredentials()).credentials.map(({ subject, updated_at }) => ({ subject, updated_at }));
+}
+
+export async function setCredential(subject: string, token: string): Promise<void> {
+  if (!SUBJECT_RE.test(subject)) throw new Error('subject must be "user:<name>" or "role:<id>"');
+  if (!token.trim()) throw new Error("token is required");
+  const key = requireKey();
+  await withCredentialLock(async (data) => {
+    const entry = { subject, token: seal(token.trim(), subject, key), updated_at: new Date().toISOString() };
+    data.credentials = [...data.credentials.filter((c) => c.subject !== subject), entry];
+    await writeCredentials(data);
+  });
+}
+
+export async function deleteCredential(subject: string): Promise<boolean> {
+  return withCredentialLock(async (data) => {
+    const before = data.credentials.length;
+    data.credentials = data.credentials.filter((c) => c.subject !== subject);
+    if (data.credentials.length === before) return false;
+    await writeCredentials(data);
+    return true;
+  });
+}
+
+// The user's own token, else the first of their roles (in role order) that has one.
+export async function splunkTokenFor(identity: Identity): Promise<string | null> {
+  const key = requireKey();
+  const { credentials } = await readCredentials();
+  for (const subject of [`user:${identity.name}`, ...identity.roles.map((r) => `role:${r}`)]) {
+    const c = credentials.find((x) => x.subject === subject);
+    if (!c) continue;
+    try {
+      return unseal(c.token, subject, key);
+    } catch {
+      throw new Error(`Cannot decrypt the Splunk credentials for ${subject}; was SPLUNK_CREDENTIALS_KEY changed?`);
+    }
+  }
+  return null;
+}
+
+// For routes that may query Splunk: the caller's token (null when per-user credentials are off or
+// the workspace does not use Splunk), or a response refusing the request. A malformed key refuses
+// Security requests rather than falling back to the shared token.
+export async function splunkAccess(identity: Identity, ws: Workspace): Promise<{ ok: boolean; resp?: Response; token?: string | null }> {
+  if (ws !== "security") return { ok: true, token: null };
+  try {
+    if (!splunkCredentialsEnabled()) return { ok: true, token: null };
+    const token = await splunkTokenFor(identity);
+    if (token) return { ok: true, token };
+    return { ok: false, resp: forbidden(`No Splunk credentials are mapped to ${identity.name}; ask an admin to add them`) };
+  } catch (e: unknown) {
+    return { ok: false, resp: jsonResponse({ error: e instanceof Error ? e.message : String(e) }, 500) };
+  }
+}
+
+// The Splunk token of the request being handled, set by the route once the caller is known.
+const current = new AsyncLocalStorage<string>();
+
+export function withSplunkToken<T>(token: string | null | undefined, fn: () => T): T {
+  return token ? current.run(token, fn) : fn();
+}
+
+export function scopedSplunkToken(): string | null {
+  return current.getStore() ?? null;
+}
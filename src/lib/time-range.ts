@@ -0,0 +1,194 @@
+// Plan time ranges: Splunk-style relative modifiers ("now", "-15m", "-1d@d", "@d-2h") or ISO 8601
+// instants with an explicit offset ("2026-10-18T02:00:00Z"). Both workspaces validate plan times here.
+
+type Unit = "s" | "m" | "h" | "d" | "w" | "mon" | "y";
+
+const UNITS: Record<string, Unit> = {
+  s: "s",
+  sec: "s",
+  secs: "s",
+  second: "s",
+  seconds: "s",
+  m: "m",
+  min: "m",
+  mins: "m",
+  minute: "m",
+  minutes: "m",
+  h: "h",
+  hr: "h",
+  hrs: "h",
+  hour: "h",
+  hours: "h",
+  d: "d",
+  day: "d",
+  days: "d",
+  w: "w",
+  week: "w",
+  weeks: "w",
+  mon: "mon",
+  month: "mon",
+  months: "mon",
+  y: "y",
+  yr: "y",
+  yrs: "y",
+  year: "y",
+  years: "y",
+};
+
+type TimeStep = { kind: "offset"; amount: number; unit: Unit } | { kind: "snap"; unit: Unit; weekday: number };
+
+const ISO_INSTANT = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?(?:Z|[+-]\d{2}:\d{2})$/;
+const STEP = /^(?:([+-])(\d{0,6})([a-z]+)|@([a-z]+)(\d?))/;
+
+// Returns the offset/snap steps of a relative modifier, or null if it is not one ("now" has none).
+function parseRelative(s: string): TimeStep[] | null {
+  if (s === "now") return [];
+  const steps: TimeStep[] = [];
+  let rest = s.toLowerCase();
+  while (rest) {
+    const m = STEP.exec(rest);
+    if (!m) return null;
+    if (m[3] !== undefined) {
+      const unit = UNITS[m[3]];
+      if (!unit) return null;
+      const n = m[2] ? Number(m[2]) : 1;
+      steps.push({ kind: "offset", amount: m[1] === "-" ? -n : n, unit });
+    } else {
+      const unit = UNITS[m[4]];
+      if (!unit) return null;
+      // @w0..@w6 snap to that weekday (0 = Sunday); a digit is only valid after w.
+      if (m[5] && unit !== "w") return null;
+      steps.push({ kind: "snap", unit, weekday: m[5] ? Number(m[5]) : 0 });
+    }
+    rest = rest.slice(m[0].length);
+  }
+  return steps.length > 0 ? steps : null;
+}
+
+export function isIsoInstant(s: string): boolean {
+  return ISO_INSTANT.test(s) && Number.isFinite(Date.parse(s));
+}
+
+export function isTimeModifier(s: string): boolean {
+  const t = s.trim();
+  return isIsoInstant(t) || parseRelative(t) !== null;
+}
+
+function applyStep(d: Date, step: TimeStep) {
+  if (step.kind === "offset") {
+    const n = step.amount;
+    if (step.unit === "s") d.setSeconds(d.getSeconds() + n);
+    else if (step.unit === "m") d.setMinutes(d.getMinutes() + n);
+    else if (step.unit === "h") d.setHours(d.getHours() + n);
+    else if (step.unit === "d") d.setDate(d.getDate() + n);
+    else if (step.unit === "w") d.setDate(d.getDate() + 7 * n);
+    else if (step.unit === "mon") d.setMonth(d.getMonth() + n);
+    else d.setFullYear(d.getFullYear() + n);
+    return;
+  }
+  // Snapping rounds down to the start of the unit, in server local time like Splunk's user time zone.
+  d.setMilliseconds(0);
+  if (step.unit === "s") return;
+  d.setSeconds(0);
+  if (step.unit === "m") return;
+  d.setMinutes(0);
+  if (step.unit === "h") return;
+  d.setHours(0);
+  if (step.unit === "d") return;
+  if (step.unit === "w") {
+    d.setDate(d.getDate() - ((d.getDay() - step.weekday + 7) % 7));
+    return;
+  }
+  d.setDate(1);
+  if (step.unit === "y") d.setMonth(0);
+}
+
+// Epoch milliseconds for a modifier, relative ones resolved against `now`; null if invalid.
+export function resolveTime(s: string, now: number = Date.now()): number | null {
+  const t = s.trim();
+  if (isIsoInstant(t)) return Date.parse(t);
+  const steps = parseRelative(t);
+  if (!steps) return null;
+  const d = new Date(now);
+  for (const step of steps) applyStep(d, step);
+  return d.getTime();
+}
+
+// Problem with an earliest/latest pair, or null when the range is usable.
+export function checkTimeRange(earliest: string, latest: string, now: number = Date.now()): string | null {
+  const e = resolveTime(earliest, now);
+  const l = resolveTime(latest, now);
+  if (e === null) return `earliest_time "${earliest}" is not a relative modifier like -15m or an ISO 8601 instant`;
+  if (l === null) return `latest_time "${latest}" is not a relative modifier like now or an ISO 8601 instant`;
+  if (e >= l) return `earliest_time "${earliest}" must be before latest_time "${latest}"`;
+  return null;
+}
+
+// Splunk takes relative modifiers as-is; absolute instants go as epoch seconds so no time_format applies.
+export function splunkTime(s: string): string {
+  const t = s.trim();
+  return isIsoInstant(t) ? String(Math.floor(Date.parse(t) / 1000)) : t;
+}
+
+// Other MCP sources do not understand Splunk modifiers: both bounds go as absolute ISO instants.
+export function sourceTime(s: string, now: number = Date.now()): string {
+  const ms = resolveTime(s, now);
+  if (ms === null) throw new Error(`Invalid time modifier "${s}"`);
+  return new Date(ms).toISOString();
+}
+
+// ISO 8601 with the server's UTC offset, so the planner can anchor "yesterday 02:00" in local time.
+export function localIsoString(ms: number = Date.now()): string {
+  const d = new Date(ms);
+  const off = -d.getTimezoneOffset();
+  const pad = (n: number) => String(Math.floor(Math.abs(n))).padStart(2, "0");
+  const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  const time = `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  return `${date}T${time}${off >= 0 ? "+" : "-"}${pad(off / 60)}:${pad(off % 60)}`;
+}
+
+const SPAN_SECONDS: Record<Exclude<Unit, "y">, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800, mon: 2592000 };
+const SPAN = /^(\d{1,4})([a-z]+)$/;
+
+// Buckets a trend may have: fewer is not a trend, more overwhelms the chart and the 500-row limit.
+const MIN_BUCKETS = 2;
+const MAX_BUCKETS = 500;
+const TARGET_BUCKETS = 60;
+const NICE_SPANS = ["1m", "5m", "10m", "15m", "30m", "1h", "2h", "4h", "12h", "1d", "7d"];
+
+// Seconds in a timechart span such as "5m" or "1hour"; null unless it is exactly <int><unit>.
+export function parseSpan(s: string): number | null {
+  const m = SPAN.exec(s.trim().toLowerCase());
+  if (!m) return null;
+  const unit = UNITS[m[2]];
+  const n = Number(m[1]);
+  if (!unit || unit === "y" || n <= 0) return null;
+  return n * SPAN_SECONDS[unit];
+}
+
+// Length of a range in seconds, or null if either end does not resolve.
+export function rangeSeconds(earliest: string, latest: string, now: number = Date.now()): number | null {
+  const e = resolveTime(earliest, now);
+  const l = resolveTime(latest, now);
+  return e === null || l === null ? null : (l - e) / 1000;
+}
+
+export function autoSpan(seconds: number): string {
+  return NICE_SPANS.find((s) => seconds / parseSpan(s)! <= TARGET_BUCKETS) ?? NICE_SPANS[NICE_SPANS.length - 1];
+}
+
+// Keeps a usable span, otherwise picks one for the range; `note` says what was rejected.
+export function fitSpan(span: string | undefined, earliest: string, latest: string): { span: string; note?: string } {
+  const range = rangeSeconds(earliest, latest) ?? 900;
+  const auto = autoSpan(range);
+  if (span === undefined || span.trim() === "") return { span: auto };
+
+  const secs = parseSpan(span);
+  if (secs === null) return { span: auto, note: `Rejected span "${span}": not a Splunk span like 5m; using ${auto}` };
+  const buckets = range / secs;
+  if (buckets > MAX_BUCKETS || buckets < MIN_BUCKETS) {
+    const count = buckets < MIN_BUCKETS ? `fewer than ${MIN_BUCKETS}` : String(Math.round(buckets));
+    return { span: auto, note: `Span "${span}" gives ${count} buckets over ${earliest}..${latest}; using ${auto}` };
+  }
+  return { span: span.trim().toLowerCase() };
+}
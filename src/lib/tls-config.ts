@@ -0,0 +1,174 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { connect, type ConnectionOptions } from "node:tls";
+import { Agent } from "undici";
+import { z } from "zod";
+
+// TLS trust per HTTPS backend (Splunk MCP, Qwen, observability MCP sources, OIDC), from config/tls.json.
+// Backends not listed there are verified against the system CAs; verification is only skipped for
+// an entry with "insecure": true.
+
+const file = z.string().trim().min(1);
+
+const EndpointSchema = z
+  .strictObject({
+    // Scheme, host and port only, e.g. "https://splunk.internal:8089".
+    origin: z.string().refine((s) => URL.canParse(s) && new URL(s).protocol === "https:" && new URL(s).origin === s, "Use an https origin without a path"),
+    // PEM bundle trusted instead of the system CAs.
+    ca_file: file.optional(),
+    // Client certificate and key for mTLS.
+    cert_file: file.optional(),
+    key_file: file.optional(),
+    insecure: z.boolean().optional(),
+  })
+  .refine((e) => !e.cert_file === !e.key_file, "cert_file and key_file go together")
+  .refine((e) => !(e.insecure && e.ca_file), "insecure and ca_file are exclusive");
+
+const TlsSchema = z.strictObject({ endpoints: z.array(EndpointSchema) });
+
+export type TlsEndpoint = z.infer<typeof EndpointSchema>;
+
+export function tlsConfigPath(): string {
+  return path.resolve(process.env.TLS_CONFIG_PATH || path.join(process.cwd(), "config", "tls.json"));
+}
+
+export function loadTlsConfig(file: string = tlsConfigPath()): TlsEndpoint[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (e: unknown) {
+    throw new Error(`Cannot read TLS config ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const r = TlsSchema.safeParse(raw);
+  const issues = r.success ? [] : r.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+  if (r.success) {
+    const origins = r.data.endpoints.map((e) => e.origin);
+    if (new Set(origins).size !== origins.length) issues.push("endpoints: duplicate origin");
+  }
+  if (!r.success || issues.length > 0) {
+    throw new Error(`Invalid TLS config ${file}: ${issues.join("; ")}`);
+  }
+  return r.data.endpoints;
+}
+
+// Loaded once per server process; restart to pick up edits or rotated certificates.
+let cached: TlsEndpoint[] | null = null;
+
+export function getTlsConfig(): TlsEndpoint[] {
+  if (!cached) cached = loadTlsConfig();
+  return cached;
+}
+
+function readPem(what: string, name: string): Buffer {
+  try {
+    return readFileSync(path.resolve(name));
+  } catch (e: unknown) {
+    throw new Error(`Cannot read TLS ${what} ${name}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+function connectOptions(ep: TlsEndpoint | undefined): ConnectionOptions {
+  if (!ep) return {};
+  return {
+    ...(ep.ca_file ? { ca: readPem("ca_file", ep.ca_file) } : {}),
+    ...(ep.cert_file && ep.key_file ? { cert: readPem("cert_file", ep.cert_file), key: readPem("key_file", ep.key_file) } : {}),
+    rejectUnauthorized: ep.insecure !== true,
+  };
+}
+
+function endpointFor(url: URL): TlsEndpoint | undefined {
+  return getTlsConfig().find((e) => e.origin === url.origin);
+}
+
+// One pooled Agent per configured origin; other URLs use fetch's default (verifying) dispatcher.
+const agents = new Map<string, Agent>();
+
+export function dispatcherFor(url: string): Agent | undefined {
+  const u = new URL(url);
+  if (u.protocol !== "https:") return undefined;
+  const ep = endpointFor(u);
+  if (!ep) return undefined;
+  let agent = agents.get(ep.origin);
+  if (!agent) {
+    agent = new Agent({ connect: connectOptions(ep) });
+    agents.set(ep.origin, agent);
+  }
+  return agent;
+}
+
+export type TlsStatus = {
+  name: string;
+  url: string;
+  mode: "plain-http" | "system-ca" | "custom-ca" | "insecure";
+  mtls: boolean;
+  // Handshake succeeded and, unless insecure, the certificate verified.
+  ok: boolean;
+  // Whether the certificate verified against the trusted CAs (also checked in insecure mode).
+  verified?: boolean;
+  valid_to?: string;
+  error?: string;
+};
+
+function handshake(u: URL, opts: ConnectionOptions, timeoutMs: number): Promise<{ verified: boolean; valid_to?: string; error?: string }> {
+  return new Promise((resolve, reject) => {
+    const socket = connect({
+      ...opts,
+      host: u.hostname,
+      port: Number(u.port || 443),
+      servername: /^[\d.]+$|:/.test(u.hostname) ? undefined : u.hostname,
+      // Verification is judged from socket.authorized so insecure backends can be reported too.
+      rejectUnauthorized: false,
+    });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`TLS handshake timed out after ${timeoutMs}ms`)));
+    socket.once("secureConnect", () => {
+      const cert = socket.getPeerCertificate();
+      const authError = socket.authorizationError;
+      resolve({ verified: socket.authorized, valid_to: cert?.valid_to || undefined, error: authError ? String(authError) : undefined });
+      socket.end();
+    });
+    socket.once("error", reject);
+  });
+}
+
+// Connects to each backend with its configured trust and reports what would happen on a real call.
+export async function checkTls(backends: Array<{ name: string; url: string }>, timeoutMs = 5000): Promise<TlsStatus[]> {
+  return Promise.all(
+    backends.map(async ({ name, url }): Promise<TlsStatus> => {
+      let u: URL;
+      try {
+        u = new URL(url);
+      } catch {
+        return { name, url, mode: "system-ca", mtls: false, ok: false, error: "Invalid URL" };
+      }
+      if (u.protocol !== "https:") return { name, url, mode: "plain-http", mtls: false, ok: true };
+
+      let ep: TlsEndpoint | undefined;
+      let opts: ConnectionOptions;
+      try {
+        ep = endpointFor(u);
+        opts = connectOptions(ep);
+      } catch (e: unknown) {
+        return { name, url, mode: "system-ca", mtls: false, ok: false, error: e instanceof Error ? e.message : String(e) };
+      }
+      const mode = ep?.insecure ? "insecure" : ep?.ca_file ? "custom-ca" : "system-ca";
+      const mtls = Boolean(ep?.cert_file);
+      try {
+        const r = await handshake(u, opts, timeoutMs);
+        return { name, url, mode, mtls, ok: r.verified || mode === "insecure", ...r };
+      } catch (e: unknown) {
+        return { name, url, mode, mtls, ok: false, error: e instanceof Error ? e.message : String(e) };
+      }
+    }),
+  );
+}
+
+// One log line per backend, e.g. "Splunk MCP https://splunk:8089: custom-ca, mTLS, verified (valid to ...)".
+export function describeTls(s: TlsStatus): string {
+  const mode = `${s.mode}${s.mtls ? ", mTLS" : ""}`;
+  if (s.mode === "plain-http") return `${s.name} ${s.url}: plain HTTP, no TLS`;
+  if (s.verified === undefined) return `${s.name} ${s.url}: ${mode}, handshake failed: ${s.error}`;
+  const cert = s.verified ? "verified" : `not verified (${s.error})`;
+  const until = s.valid_to ? ` (valid to ${s.valid_to})` : "";
+  return `${s.name} ${s.url}: ${mode}, ${cert}${until}${s.mode === "insecure" ? "; verification is DISABLED" : ""}`;
+}
@@ -0,0 +1,147 @@
+import { getErrorMessage, sseEvent, type TurnWriter } from "@/lib/analysis";
+import { appendAuditRecord, newAuditRecord, withAuditRecord, type AuditRecord } from "@/lib/audit-log";
+import { jsonResponse } from "@/lib/auth";
+import { acquireTurnSlot, turnQueueIssue } from "@/lib/rate-limit";
+import { appendSessionTurn, getSession, type Workspace } from "@/lib/session-store";
+import type { Identity } from "@/lib/user-store";
+
+// SSE plumbing shared by /api/chat and /api/run: the per-user turn queue, cancellation, the session and
+// audit records of the turn and the final error/cancelled event.
+
+export type TurnMeta = {
+  route: AuditRecord["route"];
+  identity: Identity;
+  workspace: Workspace;
+  user: string;
+  sessionId: string | null;
+  rerun?: boolean;
+};
+
+export async function streamTurn(req: Request, meta: TurnMeta, run: (turn: TurnWriter) => Promise<void>): Promise<Response> {
+  // Turns are only recorded into the caller's own sessions (any session for admins).
+  if (meta.sessionId && !(await getSession(meta.sessionId, meta.identity))) return jsonResponse({ error: "Session not found" }, 404);
+
+  // Turns over the per-user limits wait in the stream as "queued"; only a full queue gets a 429.
+  const full = turnQueueIssue(meta.identity.name);
+  if (full) {
+    const resp = jsonResponse({ error: full.message }, 429);
+    resp.headers.set("Retry-After", String(full.retryAfter));
+    return resp;
+  }
+
+  const encoder = new TextEncoder();
+
+  // Fires when the client stops the request or disconnects; every upstream call listens to it.
+  const cancel = new AbortController();
+  const signal = cancel.signal;
+  req.signal?.addEventListener("abort", () => cancel.abort(), { once: true });
+  let release: (() => void) | null = null;
+
+  const rs = new ReadableStream({
+    async start(controller) {
+      // Everything streamed for this turn is also kept for the session store.
+      const record = {
+        plan: null as unknown,
+        plan_info: undefined as unknown,
+        panels: [] as unknown[],
+        panel_errors: [] as unknown[],
+        markdown: "",
+        llm_ok: undefined as boolean | undefined,
+        cancelled: undefined as boolean | undefined,
+      };
+      const audit = newAuditRecord(meta.route, meta.identity.name, meta.workspace, meta.user, meta.sessionId);
+      const started = Date.now();
+      let stage = "planning";
+      let stageStarted = started;
+      const endStage = () => {
+        const now = Date.now();
+        audit.stages[stage] = (audit.stages[stage] ?? 0) + now - stageStarted;
+        stageStarted = now;
+      };
+      const write = (event: string, data: unknown) => {
+        if (event === "plan") record.plan = data;
+        else if (event === "plan_info") record.plan_info = data;
+        else if (event === "panel") record.panels.push(data);
+        else if (event === "panel_error") record.panel_errors.push(data);
+        else if (event === "delta") record.markdown += String((data as { text?: unknown })?.text ?? "");
+        else if (event === "done") {
+          record.llm_ok = (data as { llm_ok?: boolean })?.llm_ok;
+          record.cancelled = (data as { cancelled?: boolean })?.cancelled;
+        }
+        if (!signal.aborted) controller.enqueue(encoder.encode(sseEvent(event, data)));
+      };
+      const close = async () => {
+        release?.();
+        endStage();
+        Object.assign(audit, {
+          plan: record.plan,
+          plan_info: record.plan_info,
+          llm_ok: record.llm_ok,
+          cancelled: record.cancelled,
+          total_ms: Date.now() - started,
+        });
+        try {
+          await appendAuditRecord(audit);
+        } catch (e: unknown) {
+          write("status", { stage: "audit_warning", message: getErrorMessage(e) });
+        }
+        if (meta.sessionId) {
+          try {
+            const saved = await appendSessionTurn(meta.sessionId, meta.identity, {
+              workspace: meta.workspace,
+              user: meta.user,
+              ...(meta.rerun ? { rerun: true } : {}),
+              ...record,
+            });
+            if (!saved) write("status", { stage: "session_warning", message: "Session not found; the turn was not saved" });
+          } catch (e: unknown) {
+            write("status", { stage: "session_warning", message: getErrorMessage(e) });
+          }
+        }
+        if (!signal.aborted) controller.close();
+      };
+      const turn: TurnWriter = {
+        write,
+        signal,
+        stage: (name: string) => {
+          endStage();
+          stage = name;
+          write("status", { stage });
+        },
+      };
+
+      try {
+        release = await acquireTurnSlot(meta.identity.name, signal, (position) => {
+          if (stage !== "queued") {
+            endStage();
+            stage = "queued";
+          }
+          write("status", { stage, position, message: `queued, position ${position}` });
+        });
+        await withAuditRecord(audit, () => run(turn));
+      } catch (e: unknown) {
+        if (signal.aborted) {
+          write("done", { llm_ok: false, cancelled: true, stage });
+        } else {
+          const msg = e instanceof Error && e.name === "AbortError" ? "Request aborted by timeout" : getErrorMessage(e);
+          audit.error = msg;
+          write("error", { stage, message: msg });
+        }
+      }
+      await close();
+    },
+    cancel() {
+      release?.();
+      cancel.abort();
+    },
+  });
+
+  return new Response(rs, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
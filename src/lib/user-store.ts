@@ -0,0 +1,255 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { promises as fs, readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import type { Workspace } from "@/lib/session-store";
+
+// Named users with hashed access tokens (data/users.json) and the roles that decide which
+// workspaces, Splunk datasets and observability MCP sources they may use (config/roles.json).
+
+const key = z.string().trim().min(1).max(64);
+
+const RoleSchema = z.strictObject({
+  id: key.regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, '_' or '-'"),
+  workspaces: z.array(z.enum(["security", "observability"])),
+  // Dataset ids (config/splunk-datasets.json) and source keys (config/observability-sources.json); "*" is all.
+  datasets: z.array(key),
+  sources: z.array(key),
+  // May manage users and search the audit log.
+  admin: z.boolean().optional(),
+  // OIDC group claims that grant this role to SSO users.
+  groups: z.array(key).optional(),
+});
+
+const RolesSchema = z.strictObject({ roles: z.array(RoleSchema).min(1) });
+
+export type Role = z.infer<typeof RoleSchema>;
+
+export type Identity = {
+  name: string;
+  roles: string[];
+  workspaces: Workspace[];
+  datasets: string[];
+  sources: string[];
+  admin: boolean;
+  // Signed in through OIDC (cookie session) rather than with a bearer token.
+  sso?: boolean;
+};
+
+type StoredToken = { id: string; label?: string; hash: string; created_at: string; expires_at?: string; revoked_at?: string };
+
+type StoredUser = { name: string; roles: string[]; disabled?: boolean; created_at: string; tokens: StoredToken[] };
+
+type UserFile = { users: StoredUser[] };
+
+// What the admin API shows: no token hashes.
+export type UserSummary = Omit<StoredUser, "tokens"> & { tokens: Array<Omit<StoredToken, "hash">> };
+
+export const USER_NAME_RE = /^[a-zA-Z0-9._@-]{1,64}$/;
+
+export function rolesPath(): string {
+  return path.resolve(process.env.ROLES_PATH || path.join(process.cwd(), "config", "roles.json"));
+}
+
+export function loadRoles(file: string = rolesPath()): Role[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (e: unknown) {
+    throw new Error(`Cannot read roles ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const r = RolesSchema.safeParse(raw);
+  const issues = r.success ? [] : r.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+  if (r.success) {
+    const ids = r.data.roles.map((x) => x.id);
+    if (new Set(ids).size !== ids.length) issues.push("roles: duplicate id");
+  }
+  if (!r.success || issues.length > 0) {
+    throw new Error(`Invalid roles ${file}: ${issues.join("; ")}`);
+  }
+  return r.data.roles;
+}
+
+// Loaded once per server process; restart to pick up role edits.
+let cachedRoles: Role[] | null = null;
+
+export function getRoles(): Role[] {
+  if (!cachedRoles) cachedRoles = loadRoles();
+  return cachedRoles;
+}
+
+// Everything allowed: no user store configured, the shared APP_ACCESS_TOKEN or APP_ADMIN_TOKEN.
+export function fullAccessIdentity(name: string, admin = false): Identity {
+  return { name, roles: [], workspaces: ["security", "observability"], datasets: ["*"], sources: ["*"], admin };
+}
+
+// Union of the user's roles; unknown role ids grant nothing.
+export function identityFor(name: string, roleIds: string[]): Identity {
+  const roles = getRoles().filter((r) => roleIds.includes(r.id));
+  const union = <T>(pick: (r: Role) => T[]) => [...new Set(roles.flatMap(pick))];
+  return {
+    name,
+    roles: roleIds,
+    workspaces: union((r) => r.workspaces),
+    datasets: union((r) => r.datasets),
+    sources: union((r) => r.sources),
+    admin: roles.some((r) => r.admin === true),
+  };
+}
+
+// SSO users get every role whose `groups` include one of their group claims.
+export function identityForGroups(name: string, groups: string[]): Identity {
+  const roles = getRoles().filter((r) => r.groups?.some((g) => groups.includes(g)));
+  return { ...identityFor(name, roles.map((r) => r.id)), sso: true };
+}
+
+export function canUseWorkspace(id: Identity, ws: Workspace): boolean {
+  return id.workspaces.includes(ws);
+}
+
+export function canUseDataset(id: Identity, datasetId: string): boolean {
+  return id.datasets.includes("*") || id.datasets.includes(datasetId);
+}
+
+export function canUseSource(id: Identity, sourceKey: string): boolean {
+  return id.sources.includes("*") || id.sources.includes(sourceKey);
+}
+
+// Why the identity may not run a plan on this workspace, dataset and sources; null when it may.
+export function planAccessIssue(id: Identity, ws: Workspace, datasetId: string | null, sources: string[]): string | null {
+  if (!canUseWorkspace(id, ws)) return `Your role does not allow the ${ws} workspace`;
+  if (datasetId !== null && !canUseDataset(id, datasetId)) return `Your role does not allow the dataset ${datasetId}`;
+  const denied = [...new Set(sources.filter((s) => !canUseSource(id, s)))];
+  if (denied.length > 0) return `Your role does not allow the sources: ${denied.join(", ")}`;
+  return null;
+}
+
+function storePath(): string {
+  return path.resolve(process.env.USER_STORE_PATH || path.join(process.cwd(), "data", "users.json"));
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function readUsers(): Promise<UserFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(storePath(), "utf-8")) as UserFile;
+    return Array.isArray(parsed?.users) ? parsed : { users: [] };
+  } catch (e: unknown) {
+    if ((e as { code?: unknown })?.code === "ENOENT") return { users: [] };
+    throw e;
+  }
+}
+
+async function writeUsers(data: UserFile): Promise<void> {
+  const file = storePath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), { encoding: "utf-8", mode: 0o600 });
+  await fs.rename(tmp, file);
+}
+
+// Serialize read-modify-write of the user file.
+let lock: Promise<unknown> = Promise.resolve();
+
+function withUserLock<T>(fn: (data: UserFile) => Promise<T>): Promise<T> {
+  const next = lock.then(async () => fn(await readUsers()));
+  lock = next.catch(() => undefined);
+  return next;
+}
+
+function summarize(u: StoredUser): UserSummary {
+  const tokens = u.tokens.map(({ id, label, created_at, expires_at, revoked_at }) => ({ id, label, created_at, expires_at, revoked_at }));
+  return { ...u, tokens };
+}
+
+export async function hasUsers(): Promise<boolean> {
+  return (await readUsers()).users.length > 0;
+}
+
+// The identity owning an active token (not revoked, not expired, user not disabled), or null.
+export async function findTokenOwner(token: string): Promise<Identity | null> {
+  const hash = hashToken(token);
+  const now = new Date().toISOString();
+  for (const u of (await readUsers()).users) {
+    if (u.disabled) continue;
+    const t = u.tokens.find((x) => x.hash === hash);
+    if (!t || t.revoked_at || (t.expires_at && t.expires_at <= now)) continue;
+    return identityFor(u.name, u.roles);
+  }
+  return null;
+}
+
+export async function listUsers(): Promise<UserSummary[]> {
+  return (await readUsers()).users.map(summarize);
+}
+
+function checkRoles(roles: string[]) {
+  const known = new Set(getRoles().map((r) => r.id));
+  const unknown = roles.filter((r) => !known.has(r));
+  if (unknown.length > 0) throw new Error(`Unknown role(s): ${unknown.join(", ")}`);
+}
+
+export async function createUser(name: string, roles: string[]): Promise<UserSummary> {
+  if (!USER_NAME_RE.test(name)) throw new Error("Invalid user name");
+  checkRoles(roles);
+  return withUserLock(async (data) => {
+    if (data.users.some((u) => u.name === name)) throw new Error(`User ${name} already exists`);
+    const user: StoredUser = { name, roles, created_at: new Date().toISOString(), tokens: [] };
+    data.users.push(user);
+    await writeUsers(data);
+    return summarize(user);
+  });
+}
+
+export async function updateUser(name: string, patch: { roles?: string[]; disabled?: boolean }): Promise<UserSummary | null> {
+  if (patch.roles) checkRoles(patch.roles);
+  return withUserLock(async (data) => {
+    const user = data.users.find((u) => u.name === name);
+    if (!user) return null;
+    if (patch.roles) user.roles = patch.roles;
+    if (patch.disabled !== undefined) user.disabled = patch.disabled;
+    await writeUsers(data);
+    return summarize(user);
+  });
+}
+
+export async function deleteUser(name: string): Promise<boolean> {
+  return withUserLock(async (data) => {
+    const before = data.users.length;
+    data.users = data.users.filter((u) => u.name !== name);
+    if (data.users.length === before) return false;
+    await writeUsers(data);
+    return true;
+  });
+}
+
+// Returns the plaintext token once; only its hash is stored.
+export async function issueToken(
+  name: string,
+  opts: { label?: string; expires_at?: string },
+): Promise<{ token: string; id: string; expires_at?: string } | null> {
+  return withUserLock(async (data) => {
+    const user = data.users.find((u) => u.name === name);
+    if (!user) return null;
+    const token = `aic_${randomBytes(32).toString("base64url")}`;
+    const entry: StoredToken = { id: randomUUID(), hash: hashToken(token), created_at: new Date().toISOString() };
+    if (opts.label) entry.label = opts.label;
+    if (opts.expires_at) entry.expires_at = opts.expires_at;
+    user.tokens.push(entry);
+    await writeUsers(data);
+    return { token, id: entry.id, ...(entry.expires_at ? { expires_at: entry.expires_at } : {}) };
+  });
+}
+
+export async function revokeToken(name: string, tokenId: string): Promise<boolean> {
+  return withUserLock(async (data) => {
+    const t = data.users.find((u) => u.name === name)?.tokens.find((x) => x.id === tokenId);
+    if (!t) return false;
+    t.revoked_at ??= new Date().toISOString();
+    await writeUsers(data);
+    return true;
+  });
+}